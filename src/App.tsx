@@ -2,25 +2,69 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { lazy, Suspense } from "react";
+import { ThemeProvider } from "next-themes";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import ProjectDetail from "./pages/ProjectDetail";
 import NotFound from "./pages/NotFound";
+import { LocaleLayout, LocaleRedirect } from "./i18n/LocaleLayout";
+import Admin from "./pages/Admin";
+import AdminBlocklist from "./pages/AdminBlocklist";
+import AdminInbox from "./pages/AdminInbox";
+import AdminSpamAttempts from "./pages/AdminSpamAttempts";
 
 const queryClient = new QueryClient();
 
+// Dev-only tooling; the import is dropped from production bundles.
+const EmailPreview = import.meta.env.DEV ? lazy(() => import("./pages/EmailPreview")) : null;
+
+// Also read by the pre-paint script in index.html.
+const THEME_STORAGE_KEY = "portfolio-theme";
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <ThemeProvider
+      attribute="class"
+      defaultTheme="system"
+      enableSystem
+      disableTransitionOnChange
+      storageKey={THEME_STORAGE_KEY}
+    >
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            {/* Unprefixed public URLs (including older shared links) redirect to a locale */}
+            <Route path="/" element={<LocaleRedirect />} />
+            <Route path="/projects/:slug" element={<LocaleRedirect />} />
+            <Route path="/admin" element={<Admin />}>
+              <Route index element={<AdminInbox />} />
+              <Route path="messages/:messageId" element={<AdminInbox />} />
+              <Route path="blocked" element={<AdminSpamAttempts />} />
+              <Route path="blocklist" element={<AdminBlocklist />} />
+            </Route>
+            <Route path="/:locale" element={<LocaleLayout />}>
+              <Route index element={<Index />} />
+              <Route path="projects/:slug" element={<ProjectDetail />} />
+            </Route>
+            {EmailPreview && (
+              <Route
+                path="/dev/emails"
+                element={
+                  <Suspense fallback={null}>
+                    <EmailPreview />
+                  </Suspense>
+                }
+              />
+            )}
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </ThemeProvider>
   </QueryClientProvider>
 );
 
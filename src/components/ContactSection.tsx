@@ -1,124 +1,158 @@
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Mail, Linkedin, Github, Instagram } from "lucide-react";
+import { FileClock, Mail, Paperclip, X } from "lucide-react";
+import { useContactDraft } from "@/hooks/use-contact-draft";
+import { useCountdown } from "@/hooks/use-countdown";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { socialIcons } from "@/content";
+import { useProfile, useSocialLinks } from "@/hooks/use-portfolio-content";
+import { useI18n } from "@/i18n/context";
+import { ContactSubmitError, submitContact, toAttachmentMeta } from "@/lib/contact";
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS, createAttachmentSchema, formatBytes } from "@shared/attachments";
+import { contactMessages } from "@shared/contact-i18n";
+import {
+  CONTACT_LIMITS,
+  HONEYPOT_FIELD,
+  createContactSchema,
+  type ContactFieldPath,
+  type ContactFormInput,
+  type ContactSubmission,
+} from "@shared/contact-schema";
+import { suggestEmail } from "@shared/email-domains";
+import {
+  DEFAULT_INQUIRY_TYPE,
+  INQUIRY_DETAIL_FIELDS,
+  INQUIRY_DETAIL_MAX_LENGTH,
+  INQUIRY_FIELDS,
+  INQUIRY_TYPES,
+  type InquiryDetails,
+  type InquiryType,
+} from "@shared/inquiry";
+import { solveProofOfWork } from "@shared/proof-of-work";
+
+// Every detail input starts as "" so it stays controlled; the schema drops the ones the chosen type doesn't use
+const EMPTY_FORM: ContactFormInput = {
+  name: "",
+  email: "",
+  message: "",
+  inquiry: {
+    type: DEFAULT_INQUIRY_TYPE,
+    details: Object.fromEntries(INQUIRY_DETAIL_FIELDS.map((field) => [field, ""])) as InquiryDetails,
+  },
+  attachments: [],
+};
+
+/** 75 -> "1:15" */
+const formatWait = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
 
 const ContactSection = () => {
-  const [formData, setFormData] = useState({
-    name: "",
-    email: "",
-    message: ""
-  });
-  const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
+  const { locale, t } = useI18n();
+  const profile = useProfile();
+  const socialLinks = useSocialLinks();
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsSubmitting(true);
-    
-    // Trim inputs before submission
-    const trimmedData = {
-      name: formData.name.trim(),
-      email: formData.email.trim().toLowerCase(),
-      message: formData.message.trim()
-    };
-
-    // Client-side validation
-    if (trimmedData.name.length < 2 || trimmedData.name.length > 100) {
-      toast({
-        title: "Invalid Name",
-        description: "Name must be between 2 and 100 characters.",
-        variant: "destructive",
-      });
-      setIsSubmitting(false);
-      return;
-    }
+  // Same rules (and wording) as the submit-contact function
+  const schema = useMemo(() => createContactSchema(contactMessages[locale]), [locale]);
+  const form = useForm<ContactFormInput, unknown, ContactSubmission>({
+    resolver: zodResolver(schema),
+    defaultValues: EMPTY_FORM,
+  });
+  const { isSubmitting, errors } = form.formState;
+  const inquiryType: InquiryType = form.watch("inquiry.type") ?? DEFAULT_INQUIRY_TYPE;
+  const draft = useContactDraft(form, EMPTY_FORM);
 
-    if (trimmedData.message.length < 10 || trimmedData.message.length > 5000) {
-      toast({
-        title: "Invalid Message",
-        description: "Message must be between 10 and 5000 characters.",
-        variant: "destructive",
-      });
-      setIsSubmitting(false);
-      return;
-    }
+  // The picked files; the form itself only holds their name/type/size, which is what gets validated and sent
+  const [files, setFiles] = useState<File[]>([]);
+  const attachmentSchema = useMemo(() => createAttachmentSchema(contactMessages[locale]), [locale]);
 
-    try {
-      const { data, error } = await supabase.functions.invoke('submit-contact', {
-        body: trimmedData
-      });
+  /** Adds the files that pass the checks; reports the first problem with the rest. */
+  const addFiles = (picked: File[], update: (next: File[]) => void) => {
+    let problem: string | undefined;
+    const accepted = picked.filter((file) => {
+      const result = attachmentSchema.safeParse(toAttachmentMeta(file));
+      if (!result.success) problem = problem ?? result.error.issues[0].message;
+      return result.success;
+    });
+    const next = [...files, ...accepted];
+    if (next.length > MAX_ATTACHMENTS) problem = problem ?? contactMessages[locale].tooManyAttachments;
+    update(next.slice(0, MAX_ATTACHMENTS));
+    if (problem) form.setError("attachments", { message: problem });
+  };
 
-      if (error) throw error;
-      
-      // Check for application-level errors from the edge function
-      if (data?.error) {
-        throw new Error(data.error);
-      }
+  // Set from the server's Retry-After when the rate limit is hit
+  const [retryUntil, setRetryUntil] = useState<number | null>(null);
+  const retryIn = useCountdown(retryUntil);
+
+  // Spam checks: fill time is measured by the server from the start token
+  // taken when the form is first focused, and the honeypot input is left
+  // uncontrolled so it never shows up in form state.
+  const honeypotRef = useRef<HTMLInputElement>(null);
 
+  const onSubmit = async (values: ContactSubmission) => {
+    try {
+      const startToken = await draft.startToken();
+      const nonce = await solveProofOfWork({ ...values, startToken });
+      const { reference, failedUploads } = await submitContact(
+        values,
+        { [HONEYPOT_FIELD]: honeypotRef.current?.value ?? "", startToken, proof: { nonce } },
+        { locale, files, idempotencyKey: draft.idempotencyKey }
+      );
       toast({
-        title: "Message sent!",
-        description: "Thank you for reaching out. I'll get back to you soon!",
+        title: t.contact.successTitle,
+        description: [
+          t.contact.successDescription,
+          reference && t.contact.successReference(reference),
+          failedUploads > 0 && t.contact.attachments.uploadFailed(failedUploads),
+        ]
+          .filter(Boolean)
+          .join(" "),
       });
-      setFormData({ name: "", email: "", message: "" });
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error?.message || "Failed to send message. Please try again.",
-        variant: "destructive",
+      form.reset(EMPTY_FORM);
+      setFiles([]);
+      draft.clear();
+    } catch (error) {
+      if (error instanceof ContactSubmitError && error.retryAfter) {
+        setRetryUntil(Date.now() + error.retryAfter * 1000);
+        return;
+      }
+      const fieldErrors = error instanceof ContactSubmitError ? error.fieldErrors : {};
+      const fields = Object.keys(fieldErrors) as ContactFieldPath[];
+      if (fields.length > 0) {
+        fields.forEach((field) => form.setError(field, { message: fieldErrors[field] }));
+        return;
+      }
+      form.setError("root", {
+        message: error instanceof Error && error.message ? error.message : t.contact.errorFallback,
       });
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    setFormData(prev => ({
-      ...prev,
-      [e.target.name]: e.target.value
-    }));
-  };
-
-  const socialLinks = [
-    {
-      name: "Email",
-      icon: Mail,
-      url: "mailto:faturrahman3384@gmail.com",
-      color: "hover:text-red-400"
-    },
-    {
-      name: "LinkedIn",
-      icon: Linkedin,
-      url: "https://www.linkedin.com/in/fatur-rahman-6711b4287",
-      color: "hover:text-blue-400"
-    },
-    {
-      name: "GitHub",
-      icon: Github,
-      url: "https://github.com/Faturrahman080402",
-      color: "hover:text-gray-400"
-    },
-    {
-      name: "Instagram",
-      icon: Instagram,
-      url: "https://www.instagram.com/ftrachman14/?hl=en",
-      color: "hover:text-pink-400"
-    }
-  ];
-
   return (
     <section id="contact" className="py-20 relative">
       <div className="container mx-auto px-6">
         <div className="text-center mb-16">
           <h2 className="text-4xl md:text-5xl font-bold mb-4 bg-hero-gradient bg-clip-text text-transparent">
-            Let's Work Together
+            {t.contact.title}
           </h2>
           <p className="text-xl text-muted-foreground max-w-3xl mx-auto">
-            Ready to bring your ideas to life? Get in touch and let's create something amazing together.
+            {t.contact.subtitle}
           </p>
         </div>
 
@@ -126,59 +160,272 @@ const ContactSection = () => {
           {/* Contact Form */}
           <Card className="bg-card-gradient border-border/50 shadow-subtle-glow">
             <CardHeader>
-              <CardTitle className="text-2xl font-bold text-primary">Send a Message</CardTitle>
+              <CardTitle className="text-2xl font-bold text-primary">{t.contact.formTitle}</CardTitle>
             </CardHeader>
             <CardContent>
-              <form onSubmit={handleSubmit} className="space-y-6">
-                <div>
-                  <Input
+              <Form {...form}>
+                <form
+                  onSubmit={form.handleSubmit(onSubmit)}
+                  onFocusCapture={draft.begin}
+                  noValidate
+                  className="space-y-6"
+                >
+                  {draft.pending && (
+                    <Alert role="status" className="border-primary/40 bg-primary/5">
+                      <FileClock className="w-4 h-4 !text-primary" />
+                      <AlertTitle>{t.contact.draft.title}</AlertTitle>
+                      <AlertDescription className="space-y-3">
+                        <p>{t.contact.draft.description}</p>
+                        <div className="flex flex-wrap gap-2">
+                          <Button type="button" size="sm" onClick={draft.restore}>
+                            {t.contact.draft.restore}
+                          </Button>
+                          <Button type="button" size="sm" variant="outline" onClick={draft.discard}>
+                            {t.contact.draft.discard}
+                          </Button>
+                        </div>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {/* Honeypot: hidden from people and assistive tech, tempting to bots */}
+                  <div aria-hidden="true" className="absolute -left-[10000px] h-px w-px overflow-hidden">
+                    <label htmlFor={`contact-${HONEYPOT_FIELD}`}>Website</label>
+                    <input
+                      ref={honeypotRef}
+                      id={`contact-${HONEYPOT_FIELD}`}
+                      name={HONEYPOT_FIELD}
+                      type="text"
+                      tabIndex={-1}
+                      autoComplete="off"
+                      defaultValue=""
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="inquiry.type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.contact.inquiry.label}</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            form.clearErrors("inquiry.details");
+                          }}
+                        >
+                          <FormControl>
+                            <SelectTrigger
+                              ref={field.ref}
+                              onBlur={field.onBlur}
+                              className="bg-secondary border-border/50 focus:border-primary/50 transition-colors"
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {INQUIRY_TYPES.map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {t.contact.inquiry.types[type]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {INQUIRY_FIELDS[inquiryType].length > 0 && (
+                    <div className="grid gap-6 sm:grid-cols-2">
+                      {INQUIRY_FIELDS[inquiryType].map(({ field: detail }) => (
+                        <FormField
+                          key={`${inquiryType}-${detail}`}
+                          control={form.control}
+                          name={`inquiry.details.${detail}`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="sr-only">{t.contact.inquiry.fields[detail]}</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type={detail === "link" ? "url" : "text"}
+                                  placeholder={t.contact.inquiry.fields[detail]}
+                                  autoComplete={detail === "company" || detail === "organization" ? "organization" : "off"}
+                                  maxLength={INQUIRY_DETAIL_MAX_LENGTH}
+                                  className="bg-secondary border-border/50 focus:border-primary/50 transition-colors"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                  )}
+
+                  <FormField
+                    control={form.control}
                     name="name"
-                    placeholder="Your Name"
-                    value={formData.name}
-                    onChange={handleChange}
-                    required
-                    minLength={2}
-                    maxLength={100}
-                    className="bg-secondary border-border/50 focus:border-primary/50 transition-colors"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="sr-only">{t.contact.namePlaceholder}</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder={t.contact.namePlaceholder}
+                            autoComplete="name"
+                            maxLength={CONTACT_LIMITS.name.max}
+                            className="bg-secondary border-border/50 focus:border-primary/50 transition-colors"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                </div>
-                
-                <div>
-                  <Input
+
+                  <FormField
+                    control={form.control}
                     name="email"
-                    type="email"
-                    placeholder="Your Email"
-                    value={formData.email}
-                    onChange={handleChange}
-                    maxLength={255}
-                    required
-                    className="bg-secondary border-border/50 focus:border-primary/50 transition-colors"
+                    render={({ field, fieldState }) => {
+                      // Offered once the visitor leaves the field, so it doesn't flicker while they type
+                      const suggestion =
+                        fieldState.isTouched && !fieldState.error ? suggestEmail(field.value ?? "") : null;
+                      return (
+                        <FormItem>
+                          <FormLabel className="sr-only">{t.contact.emailPlaceholder}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="email"
+                              placeholder={t.contact.emailPlaceholder}
+                              autoComplete="email"
+                              maxLength={CONTACT_LIMITS.email.max}
+                              className="bg-secondary border-border/50 focus:border-primary/50 transition-colors"
+                              {...field}
+                            />
+                          </FormControl>
+                          {suggestion && (
+                            <button
+                              type="button"
+                              className="text-sm text-primary hover:underline"
+                              onClick={() => form.setValue("email", suggestion, { shouldValidate: true })}
+                            >
+                              {t.contact.emailSuggestion(suggestion)}
+                            </button>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      );
+                    }}
                   />
-                </div>
-                
-                <div>
-                  <Textarea
+
+                  <FormField
+                    control={form.control}
                     name="message"
-                    placeholder="Your Message"
-                    value={formData.message}
-                    onChange={handleChange}
-                    required
-                    minLength={10}
-                    maxLength={5000}
-                    rows={6}
-                    className="bg-secondary border-border/50 focus:border-primary/50 transition-colors resize-none"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="sr-only">{t.contact.messagePlaceholder}</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder={t.contact.messagePlaceholder}
+                            maxLength={CONTACT_LIMITS.message.max}
+                            rows={6}
+                            className="bg-secondary border-border/50 focus:border-primary/50 transition-colors resize-none"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                </div>
-                
-                <Button
-                  type="submit"
-                  size="lg"
-                  disabled={isSubmitting}
-                  className="w-full bg-primary hover:bg-primary/90 text-primary-foreground shadow-glow transition-all duration-300 hover:shadow-subtle-glow transform hover:scale-105"
-                >
-                  {isSubmitting ? "Sending..." : "Send Message"}
-                </Button>
-              </form>
+
+                  <FormField
+                    control={form.control}
+                    name="attachments"
+                    render={({ field }) => {
+                      const update = (next: File[]) => {
+                        setFiles(next);
+                        field.onChange(next.map(toAttachmentMeta));
+                      };
+                      return (
+                        <FormItem>
+                          <FormLabel>{t.contact.attachments.label}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="file"
+                              multiple
+                              accept={ATTACHMENT_ACCEPT}
+                              name={field.name}
+                              ref={field.ref}
+                              onBlur={field.onBlur}
+                              disabled={files.length >= MAX_ATTACHMENTS}
+                              onChange={(e) => {
+                                addFiles(Array.from(e.target.files ?? []), update);
+                                // Allow picking the same file again after removing it
+                                e.target.value = "";
+                              }}
+                              className="bg-secondary border-border/50 focus:border-primary/50 transition-colors file:text-foreground"
+                            />
+                          </FormControl>
+                          <FormDescription>{t.contact.attachments.hint}</FormDescription>
+                          {files.length > 0 && (
+                            <ul className="space-y-2">
+                              {files.map((file, i) => (
+                                <li
+                                  key={`${file.name}-${i}`}
+                                  className="flex items-center justify-between gap-2 rounded-md bg-secondary px-3 py-2 text-sm"
+                                >
+                                  <span className="flex min-w-0 items-center gap-2">
+                                    <Paperclip className="w-4 h-4 shrink-0 text-primary" />
+                                    <span className="truncate text-foreground">{file.name}</span>
+                                    <span className="shrink-0 text-muted-foreground">{formatBytes(file.size)}</span>
+                                  </span>
+                                  <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7 shrink-0"
+                                    aria-label={t.contact.attachments.remove(file.name)}
+                                    onClick={() => update(files.filter((_, j) => j !== i))}
+                                  >
+                                    <X className="w-4 h-4" />
+                                  </Button>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      );
+                    }}
+                  />
+
+                  {retryIn > 0 ? (
+                    // Not a live region: it would be re-announced every second
+                    <p className="text-sm font-medium text-destructive">
+                      {t.contact.rateLimited(formatWait(retryIn))}
+                    </p>
+                  ) : (
+                    errors.root && (
+                      <p role="alert" className="text-sm font-medium text-destructive">
+                        {errors.root.message}
+                      </p>
+                    )
+                  )}
+
+                  <Button
+                    type="submit"
+                    size="lg"
+                    disabled={isSubmitting || retryIn > 0}
+                    className="w-full bg-primary hover:bg-primary/90 text-primary-foreground shadow-glow transition-all duration-300 hover:shadow-subtle-glow transform hover:scale-105"
+                  >
+                    {isSubmitting
+                      ? t.contact.sending
+                      : retryIn > 0
+                        ? t.contact.retryIn(formatWait(retryIn))
+                        : t.contact.send}
+                  </Button>
+                </form>
+              </Form>
             </CardContent>
           </Card>
 
@@ -186,22 +433,21 @@ const ContactSection = () => {
           <div className="space-y-8">
             <Card className="bg-card-gradient border-border/50 shadow-subtle-glow">
               <CardContent className="p-8">
-                <h3 className="text-2xl font-bold mb-6 text-primary">Get In Touch</h3>
+                <h3 className="text-2xl font-bold mb-6 text-primary">{t.contact.infoTitle}</h3>
                 <p className="text-muted-foreground text-lg leading-relaxed mb-6">
-                  I'm always interested in hearing about new opportunities, creative projects, 
-                  or just having a chat about technology and design. Feel free to reach out!
+                  {t.contact.infoText}
                 </p>
                 
                 <div className="space-y-4">
                   <div className="flex items-center space-x-3">
                     <Mail className="w-5 h-5 text-primary" />
-                    <span className="text-foreground">faturrahman3384@gmail.com</span>
+                    <span className="text-foreground">{profile.email}</span>
                   </div>
                   <div className="flex items-center space-x-3">
                     <div className="w-5 h-5 flex items-center justify-center">
                       <span className="text-primary text-sm">📍</span>
                     </div>
-                    <span className="text-foreground">Toba, North Sumatra</span>
+                    <span className="text-foreground">{profile.location}</span>
                   </div>
                 </div>
               </CardContent>
@@ -209,20 +455,23 @@ const ContactSection = () => {
 
             <Card className="bg-card-gradient border-border/50 shadow-subtle-glow">
               <CardContent className="p-8">
-                <h3 className="text-2xl font-bold mb-6 text-primary">Connect With Me</h3>
+                <h3 className="text-2xl font-bold mb-6 text-primary">{t.contact.connectTitle}</h3>
                 <div className="flex space-x-6">
-                  {socialLinks.map((social) => (
-                    <a
-                      key={social.name}
-                      href={social.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className={`p-3 bg-secondary rounded-full transition-all duration-300 hover:bg-secondary/80 transform hover:scale-110 ${social.color} group shadow-lg hover:shadow-glow`}
-                      aria-label={social.name}
-                    >
-                      <social.icon className="w-6 h-6" />
-                    </a>
-                  ))}
+                  {socialLinks.map((social) => {
+                    const Icon = socialIcons[social.icon];
+                    return (
+                      <a
+                        key={social.name}
+                        href={social.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={`p-3 bg-secondary rounded-full transition-all duration-300 hover:bg-secondary/80 transform hover:scale-110 ${social.color} group shadow-lg hover:shadow-glow`}
+                        aria-label={social.name}
+                      >
+                        <Icon className="w-6 h-6" />
+                      </a>
+                    );
+                  })}
                 </div>
               </CardContent>
             </Card>
@@ -1,7 +1,12 @@
 import { Button } from "@/components/ui/button";
 import { ArrowDown } from "lucide-react";
+import { useProfile } from "@/hooks/use-portfolio-content";
+import { useI18n } from "@/i18n/context";
 
 const HeroSection = () => {
+  const { t } = useI18n();
+  const profile = useProfile();
+
   const scrollToProjects = () => {
     document.getElementById("projects")?.scrollIntoView({ 
       behavior: "smooth",
@@ -24,12 +29,12 @@ const HeroSection = () => {
         <div className="animate-fade-in-up">
           <h1 className="text-5xl md:text-7xl font-bold mb-6">
             <span className="bg-hero-gradient bg-clip-text text-transparent">
-              Fatur Rahman
+              {profile.name}
             </span>
           </h1>
           
           <p className="text-xl md:text-2xl text-muted-foreground mb-8 max-w-3xl mx-auto leading-relaxed">
-            Fresh Graduate in Computer Technology from IT Del with a strong focus on cybersecurity, cloud computing, networking, and IoT systems.
+            {profile.summary}
           </p>
           
           <div className="flex flex-col sm:flex-row gap-4 justify-center items-center mb-16">
@@ -38,7 +43,7 @@ const HeroSection = () => {
               className="bg-primary hover:bg-primary/90 text-primary-foreground px-8 py-6 text-lg font-medium shadow-glow transition-all duration-300 hover:shadow-subtle-glow transform hover:scale-105"
               onClick={scrollToProjects}
             >
-              View My Work
+              {t.hero.viewWork}
             </Button>
             
             <Button 
@@ -47,7 +52,7 @@ const HeroSection = () => {
               className="border-primary/50 text-primary hover:bg-primary/10 px-8 py-6 text-lg transition-all duration-300"
               onClick={() => document.getElementById("contact")?.scrollIntoView({ behavior: "smooth" })}
             >
-              Get In Touch
+              {t.hero.getInTouch}
             </Button>
           </div>
 
@@ -0,0 +1,48 @@
+import { Languages } from "lucide-react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { LOCALES, LOCALE_LABELS, isLocale, switchLocalePath } from "@/i18n/config";
+import { useI18n } from "@/i18n/context";
+import { saveLocale } from "@/i18n/preference";
+
+const LanguageSwitcher = () => {
+  const { locale, t } = useI18n();
+  const { pathname, search } = useLocation();
+  const navigate = useNavigate();
+
+  const handleChange = (value: string) => {
+    if (!isLocale(value) || value === locale) return;
+    saveLocale(value);
+    // Keep the visitor on the same page and section. The scroll spy updates the
+    // hash outside the router, so read it from window.location.
+    navigate(`${switchLocalePath(pathname, value)}${search}${window.location.hash}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-foreground" aria-label={t.nav.changeLanguage}>
+          <Languages className="h-5 w-5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup value={locale} onValueChange={handleChange}>
+          {LOCALES.map((value) => (
+            <DropdownMenuRadioItem key={value} value={value} lang={value}>
+              {LOCALE_LABELS[value]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,85 @@
+import { useRef, useState } from "react";
+import { Menu } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { useI18n } from "@/i18n/context";
+import { cn } from "@/lib/utils";
+
+type NavItem = {
+  id: string;
+  label: string;
+};
+
+type MobileNavigationProps = {
+  items: readonly NavItem[];
+  activeSection: string;
+  onNavigate: (sectionId: string) => void;
+};
+
+/**
+ * Slide-out menu for small screens. The Radix dialog behind ui/sheet traps
+ * focus and locks body scroll while open.
+ */
+const MobileNavigation = ({ items, activeSection, onNavigate }: MobileNavigationProps) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  // Scrolling is deferred until the sheet has closed and released the scroll lock.
+  const pendingSection = useRef<string | null>(null);
+
+  const handleSelect = (sectionId: string) => {
+    pendingSection.current = sectionId;
+    setOpen(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-foreground" aria-label={t.nav.openMenu}>
+          <Menu className="w-6 h-6" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent
+        side="right"
+        className="w-72 bg-background/95 backdrop-blur-md border-border"
+        onCloseAutoFocus={(event) => {
+          const sectionId = pendingSection.current;
+          if (!sectionId) return;
+          // Keep focus from jumping back to the trigger at the top of the page.
+          event.preventDefault();
+          pendingSection.current = null;
+          onNavigate(sectionId);
+        }}
+      >
+        <SheetHeader className="text-left">
+          <SheetTitle className="text-2xl font-bold bg-hero-gradient bg-clip-text text-transparent">
+            {t.nav.brand}
+          </SheetTitle>
+          <SheetDescription className="sr-only">{t.nav.menuDescription}</SheetDescription>
+        </SheetHeader>
+        <nav className="mt-8 flex flex-col gap-2" aria-label="Mobile">
+          {items.map((item) => {
+            const isActive = activeSection === item.id;
+            return (
+              <Button
+                key={item.id}
+                variant="ghost"
+                aria-current={isActive ? "location" : undefined}
+                className={cn(
+                  "justify-start text-lg h-12 transition-all duration-300",
+                  isActive
+                    ? "text-primary font-medium bg-primary/10"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+                onClick={() => handleSelect(item.id)}
+              >
+                {item.label}
+              </Button>
+            );
+          })}
+        </nav>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default MobileNavigation;
@@ -1,50 +1,26 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
+import { useScrollSpy } from "@/hooks/use-scroll-spy";
+import { useI18n } from "@/i18n/context";
+import { SECTION_IDS, scrollToSection } from "@/lib/sections";
+import LanguageSwitcher from "./LanguageSwitcher";
+import MobileNavigation from "./MobileNavigation";
+import ThemeToggle from "./ThemeToggle";
 
 const Navigation = () => {
+  const { t } = useI18n();
   const [isScrolled, setIsScrolled] = useState(false);
-  const [activeSection, setActiveSection] = useState("home");
+  const activeSection = useScrollSpy(SECTION_IDS, { syncHash: true });
 
   useEffect(() => {
-    const handleScroll = () => {
-      setIsScrolled(window.scrollY > 20);
-      
-      // Update active section based on scroll position
-      const sections = ["home", "about", "projects", "contact"];
-      const currentSection = sections.find(section => {
-        const element = document.getElementById(section);
-        if (element) {
-          const rect = element.getBoundingClientRect();
-          return rect.top <= 100 && rect.bottom >= 100;
-        }
-        return false;
-      });
-      
-      if (currentSection) {
-        setActiveSection(currentSection);
-      }
-    };
+    const handleScroll = () => setIsScrolled(window.scrollY > 20);
 
-    window.addEventListener("scroll", handleScroll);
+    handleScroll();
+    window.addEventListener("scroll", handleScroll, { passive: true });
     return () => window.removeEventListener("scroll", handleScroll);
   }, []);
 
-  const scrollToSection = (sectionId: string) => {
-    const element = document.getElementById(sectionId);
-    if (element) {
-      element.scrollIntoView({ 
-        behavior: "smooth",
-        block: "start"
-      });
-    }
-  };
-
-  const navItems = [
-    { id: "home", label: "Home" },
-    { id: "about", label: "About" },
-    { id: "projects", label: "Projects" },
-    { id: "contact", label: "Contact" },
-  ];
+  const navItems = SECTION_IDS.map((id) => ({ id, label: t.nav.sections[id] }));
 
   return (
     <nav className={`fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${
@@ -55,14 +31,15 @@ const Navigation = () => {
       <div className="container mx-auto px-6 py-4">
         <div className="flex items-center justify-between">
           <div className="text-2xl font-bold bg-hero-gradient bg-clip-text text-transparent">
-            Portfolio
+            {t.nav.brand}
           </div>
           
-          <div className="hidden md:flex items-center space-x-8">
+          <div className="hidden md:flex items-center space-x-6">
             {navItems.map((item) => (
               <Button
                 key={item.id}
                 variant="ghost"
+                aria-current={activeSection === item.id ? "location" : undefined}
                 className={`transition-all duration-300 ${
                   activeSection === item.id
                     ? "text-primary font-medium"
@@ -73,19 +50,19 @@ const Navigation = () => {
                 {item.label}
               </Button>
             ))}
+            <LanguageSwitcher />
+            <ThemeToggle />
           </div>
 
-          {/* Mobile menu button */}
-          <div className="md:hidden">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="text-foreground"
-            >
-              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
-              </svg>
-            </Button>
+          {/* Mobile menu */}
+          <div className="flex items-center gap-1 md:hidden">
+            <LanguageSwitcher />
+            <ThemeToggle />
+            <MobileNavigation
+              items={navItems}
+              activeSection={activeSection}
+              onNavigate={scrollToSection}
+            />
           </div>
         </div>
       </div>
@@ -93,4 +70,4 @@ const Navigation = () => {
   );
 };
 
-export default Navigation;
\ No newline at end of file
+export default Navigation;
@@ -1,87 +1,39 @@
 import { Card, CardContent } from "@/components/ui/card";
-
-import project1 from "@/assets/project-1.jpg";
-import project2 from "@/assets/project-2.jpg";
-import project3 from "@/assets/project-3.jpg";
-import project4 from "@/assets/project-4.jpg";
-import project5 from "@/assets/project-5.png";
-import project6 from "@/assets/project-6.png";
+import { Link } from "react-router-dom";
+import { projectSlug, resolveImage } from "@/content";
+import { useProjects } from "@/hooks/use-portfolio-content";
+import { useI18n } from "@/i18n/context";
 
 const ProjectsSection = () => {
-  const projects = [
-    {
-      id: 1,
-      title: "PDLC Glass System with UV Detection",
-      description: "Leading the development of UV detection systems and automatic curtains to improve safety and energy efficiency, reducing UV exposure by up to 80% in indoor environments.",
-      image: project1,
-      technologies: ["C", "Arduino IDE", "ML8511 Sensor", "DHT11", "Arduino Uno"],
-    },
-    {
-      id: 2,
-      title: "Automatic Garbage Collection Ship",
-      description: "3D casing design in SolidWorks for autonomous garbage collection ship that detects garbage in waters and monitors pollution levels using camera detection.",
-      image: project2,
-      technologies: ["SolidWorks", "3D Design", "Environmental Monitoring"],
-    },
-    {
-      id: 3,
-      title: "I-Travel Website Information System",
-      description: "Comprehensive travel website providing information about tourist attractions, restaurants, accommodations, and travel routes between Kualanamu and Silangit Airports.",
-      image: project3,
-      technologies: ["HTML", "CSS", "JavaScript", "PHP", "SQL"],
-    },
-    {
-      id: 4,
-      title: "Mesh LoRa on NS3 Simulator",
-      description: "Development and simulation of LoRa Mesh networks using NS3 simulator to optimize long-range and energy-efficient communication performance for IoT applications.",
-      image: project4,
-      technologies: ["NS3", "Ubuntu", "LoRa", "Network Simulation"],
-    },
-    {
-      id: 5,
-      title: "Deep Focus",
-      description: "A productivity and focus application designed to help users concentrate on their tasks with minimal distractions.",
-      image: project5,
-      technologies: ["React", "TypeScript", "Tailwind CSS"],
-      url: "https://deep-focuss.lovable.app"
-    },
-    {
-      id: 6,
-      title: "Toba Market",
-      description: "An e-commerce marketplace platform showcasing products and services from the Toba region.",
-      image: project6,
-      technologies: ["React", "TypeScript", "Tailwind CSS"],
-      url: "https://tobamarket.lovable.app"
-    }
-  ];
+  const { t, path } = useI18n();
+  const projects = useProjects();
 
   return (
     <section id="projects" className="py-20 relative">
       <div className="container mx-auto px-6">
         <div className="text-center mb-16">
           <h2 className="text-4xl md:text-5xl font-bold mb-4 bg-hero-gradient bg-clip-text text-transparent">
-            Featured Projects
+            {t.projects.title}
           </h2>
           <p className="text-xl text-muted-foreground max-w-3xl mx-auto">
-            A showcase of my recent work, ranging from web applications to mobile solutions
+            {t.projects.subtitle}
           </p>
         </div>
 
         <div className="grid md:grid-cols-2 gap-8 max-w-6xl mx-auto">
           {projects.map((project, index) => {
-            const CardWrapper = project.url ? 'a' : 'div';
-            const cardProps = project.url ? { href: project.url, target: "_blank", rel: "noopener noreferrer" } : {};
-            
+            const slug = projectSlug(project);
+
             return (
-              <CardWrapper key={project.id} {...cardProps}>
+              <Link key={project.id} id={`project-${slug}`} to={path(`/projects/${slug}`)} className="scroll-mt-24">
                 <Card 
-                  className={`group bg-card-gradient border-border/50 shadow-subtle-glow hover:shadow-glow transition-all duration-500 transform hover:-translate-y-2 animate-fade-in-up ${project.url ? 'cursor-pointer' : ''}`}
+                  className="group bg-card-gradient border-border/50 shadow-subtle-glow hover:shadow-glow transition-all duration-500 transform hover:-translate-y-2 animate-fade-in-up cursor-pointer"
                   style={{ animationDelay: `${index * 150}ms` }}
                 >
                   <CardContent className="p-0">
                     <div className="relative overflow-hidden rounded-t-lg">
                       <img
-                        src={project.image}
+                        src={resolveImage(project.image)}
                         alt={project.title}
                         className="w-full h-48 object-cover transition-transform duration-500 group-hover:scale-110"
                       />
@@ -110,7 +62,7 @@ const ProjectsSection = () => {
                     </div>
                   </CardContent>
                 </Card>
-              </CardWrapper>
+              </Link>
             );
           })}
         </div>
@@ -0,0 +1,131 @@
+import { Link, NavLink, useLocation, useSearchParams } from "react-router-dom";
+import {
+  Archive,
+  ArrowLeft,
+  Ban,
+  Inbox,
+  Layers,
+  LogOut,
+  Mail,
+  Reply,
+  ShieldAlert,
+  ShieldBan,
+  ShieldQuestion,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { useUnreadMessageCount } from "@/hooks/use-contact-messages";
+import { supabase } from "@/integrations/supabase/client";
+import { MESSAGE_VIEWS, isMessageView, type MessageView } from "@/lib/message-status";
+
+const viewIcons: Record<MessageView, LucideIcon> = {
+  inbox: Inbox,
+  unread: Mail,
+  replied: Reply,
+  archived: Archive,
+  quarantine: ShieldQuestion,
+  spam: ShieldAlert,
+  all: Layers,
+};
+
+type AdminSidebarProps = {
+  email: string | undefined;
+};
+
+const AdminSidebar = ({ email }: AdminSidebarProps) => {
+  const { pathname } = useLocation();
+  const [searchParams] = useSearchParams();
+  const viewParam = searchParams.get("view");
+  const activeView = isMessageView(viewParam) ? viewParam : "inbox";
+  const { data: unreadCount } = useUnreadMessageCount();
+  const isMessagesPage = pathname === "/admin" || pathname.startsWith("/admin/messages");
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <div className="px-2 py-1">
+          <div className="text-lg font-bold bg-hero-gradient bg-clip-text text-transparent">Portfolio Admin</div>
+          {email && <div className="text-xs text-sidebar-foreground/70 truncate">{email}</div>}
+        </div>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Messages</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {(Object.keys(MESSAGE_VIEWS) as MessageView[]).map((view) => {
+                const Icon = viewIcons[view];
+                return (
+                  <SidebarMenuItem key={view}>
+                    <SidebarMenuButton asChild isActive={isMessagesPage && activeView === view}>
+                      <Link to={view === "inbox" ? "/admin" : `/admin?view=${view}`}>
+                        <Icon />
+                        <span>{MESSAGE_VIEWS[view].label}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                    {view === "unread" && !!unreadCount && <SidebarMenuBadge>{unreadCount}</SidebarMenuBadge>}
+                  </SidebarMenuItem>
+                );
+              })}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        <SidebarGroup>
+          <SidebarGroupLabel>Protection</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={pathname === "/admin/blocked"}>
+                  <Link to="/admin/blocked">
+                    <Ban />
+                    <span>Blocked attempts</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={pathname === "/admin/blocklist"}>
+                  <Link to="/admin/blocklist">
+                    <ShieldBan />
+                    <span>Blocklist</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton asChild>
+              <NavLink to="/">
+                <ArrowLeft />
+                <span>Back to site</span>
+              </NavLink>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton onClick={() => supabase.auth.signOut()}>
+              <LogOut />
+              <span>Sign out</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+    </Sidebar>
+  );
+};
+
+export default AdminSidebar;
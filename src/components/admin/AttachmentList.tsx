@@ -0,0 +1,57 @@
+import { Download, Paperclip } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAttachmentDownload, useMessageAttachments } from "@/hooks/use-contact-messages";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { formatBytes } from "@shared/attachments";
+
+const AttachmentList = ({ messageId, className }: { messageId: string; className?: string }) => {
+  const { data: attachments } = useMessageAttachments(messageId);
+  const { mutate: download, isPending, variables: downloading } = useAttachmentDownload();
+  const { toast } = useToast();
+
+  if (!attachments?.length) return null;
+
+  return (
+    <ul className={cn("space-y-2", className)} aria-label="Attachments">
+      {attachments.map((attachment) => (
+        <li
+          key={attachment.id}
+          className="flex items-center justify-between gap-3 rounded-lg border border-border/50 bg-secondary/30 px-4 py-2 text-sm"
+        >
+          <span className="flex min-w-0 items-center gap-2">
+            <Paperclip className="w-4 h-4 shrink-0 text-primary" />
+            <span className="truncate text-foreground">{attachment.file_name}</span>
+            <span className="shrink-0 text-xs text-muted-foreground">{formatBytes(attachment.size_bytes)}</span>
+          </span>
+          {attachment.uploaded_at ? (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isPending && downloading?.id === attachment.id}
+              onClick={() =>
+                download(attachment, {
+                  onSuccess: (url) => window.location.assign(url),
+                  onError: (error) => {
+                    toast({
+                      title: "Could not download attachment",
+                      description: error.message,
+                      variant: "destructive",
+                    });
+                  },
+                })
+              }
+            >
+              <Download className="w-4 h-4" />
+              Download
+            </Button>
+          ) : (
+            <span className="shrink-0 text-xs text-muted-foreground">Upload not completed</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,67 @@
+import { Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAddBlocklistEntry, type ContactMessage } from "@/hooks/use-contact-messages";
+import { useToast } from "@/hooks/use-toast";
+import { blocklistValueLabel, emailDomain, type BlocklistKind } from "@/lib/blocklist";
+import { contactReference } from "@shared/contact-reference";
+
+/** One-click blocking of a message's sender: by address, their whole domain or the IP they sent from. */
+const BlockSenderMenu = ({ message }: { message: ContactMessage }) => {
+  const { mutate: addEntry, isPending } = useAddBlocklistEntry();
+  const { toast } = useToast();
+  const domain = emailDomain(message.email);
+
+  const block = (kind: BlocklistKind, value: string) => {
+    addEntry(
+      {
+        kind,
+        value,
+        reason: `Blocked from ${contactReference(message.id)}`,
+        source_message_id: message.id,
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Sender blocked",
+            description: `New messages from ${blocklistValueLabel({ kind, value })} will be turned away.`,
+          });
+        },
+        onError: (error) => {
+          toast({ title: "Could not block sender", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isPending}>
+          <Ban className="w-4 h-4" />
+          Block sender
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>Turn away future messages from</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => block("email", message.email.toLowerCase())}>{message.email}</DropdownMenuItem>
+        {domain && (
+          <DropdownMenuItem onSelect={() => block("domain", domain)}>Anyone at @{domain}</DropdownMenuItem>
+        )}
+        {message.ip_hash && (
+          <DropdownMenuItem onSelect={() => block("ip_hash", message.ip_hash!)}>
+            Anyone on the same IP address
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default BlockSenderMenu;
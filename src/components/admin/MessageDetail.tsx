@@ -0,0 +1,195 @@
+import { format } from "date-fns";
+import {
+  Archive,
+  Mail,
+  MailOpen,
+  Reply,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldQuestion,
+  type LucideIcon,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import AttachmentList from "@/components/admin/AttachmentList";
+import BlockSenderMenu from "@/components/admin/BlockSenderMenu";
+import MessageSource from "@/components/admin/MessageSource";
+import MessageStatusBadge from "@/components/admin/MessageStatusBadge";
+import ReplyComposer from "@/components/admin/ReplyComposer";
+import type { ContactMessage, ContactReply } from "@/hooks/use-contact-messages";
+import { MESSAGE_STATUS_TRANSITIONS, type MessageStatus } from "@/lib/message-status";
+import { cn } from "@/lib/utils";
+import { contactReference } from "@shared/contact-reference";
+import { INQUIRY_TYPE_LABELS, describeInquiryDetails } from "@shared/inquiry";
+import { SPAM_SIGNAL_LABELS, type SpamSignal } from "@shared/spam-score";
+
+const statusActions: Record<MessageStatus, { label: string; icon: LucideIcon }> = {
+  unread: { label: "Mark as unread", icon: Mail },
+  read: { label: "Mark as read", icon: MailOpen },
+  replied: { label: "Mark as replied", icon: Reply },
+  archived: { label: "Archive", icon: Archive },
+  spam: { label: "Mark as spam", icon: ShieldAlert },
+  quarantined: { label: "Quarantine", icon: ShieldQuestion },
+};
+
+// Rescuing a message also trains the spam filter, so say so
+const actionFor = (from: MessageStatus, to: MessageStatus) =>
+  (from === "spam" || from === "quarantined") && to === "read"
+    ? { label: "Not spam", icon: ShieldCheck }
+    : statusActions[to];
+
+const readSpamSignals = (value: unknown): SpamSignal[] =>
+  Array.isArray(value) ? value.filter((signal) => signal && typeof signal.name === "string") : [];
+
+const timeline: { key: keyof ContactMessage; label: string }[] = [
+  { key: "created_at", label: "Received" },
+  { key: "read_at", label: "Read" },
+  { key: "replied_at", label: "Replied" },
+  { key: "archived_at", label: "Archived" },
+  { key: "spam_at", label: "Marked as spam" },
+];
+
+type MessageDetailProps = {
+  message: ContactMessage | null | undefined;
+  replies: ContactReply[] | undefined;
+  isLoading: boolean;
+  isUpdating: boolean;
+  onStatusChange: (status: MessageStatus) => void;
+};
+
+const MessageDetail = ({ message, replies, isLoading, isUpdating, onStatusChange }: MessageDetailProps) => {
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  if (!message) {
+    return (
+      <p className="p-6 text-sm text-muted-foreground text-center">
+        Message not found.
+      </p>
+    );
+  }
+
+  const inquiryDetails = describeInquiryDetails(message.inquiry_type, message.inquiry_details);
+  const spamSignals = readSpamSignals(message.spam_signals);
+
+  return (
+    <Card className="bg-card-gradient border-border/50 shadow-subtle-glow">
+      <CardHeader className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="text-xl text-foreground">{message.name}</CardTitle>
+          <MessageStatusBadge status={message.status} />
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+          <a href={`mailto:${message.email}`} className="inline-flex items-center gap-1 text-primary hover:underline">
+            <Mail className="w-4 h-4" />
+            {message.email}
+          </a>
+          <time dateTime={message.created_at}>{format(new Date(message.created_at), "PPpp")}</time>
+          <span className="font-mono text-xs">{contactReference(message.id)}</span>
+          <Badge variant="secondary">{INQUIRY_TYPE_LABELS[message.inquiry_type]}</Badge>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {MESSAGE_STATUS_TRANSITIONS[message.status].map((status) => {
+            const { label, icon: Icon } = actionFor(message.status, status);
+            return (
+              <Button
+                key={status}
+                variant="outline"
+                size="sm"
+                disabled={isUpdating}
+                onClick={() => onStatusChange(status)}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </Button>
+            );
+          })}
+          <BlockSenderMenu message={message} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {spamSignals.length > 0 && (
+          <div
+            className={cn(
+              "rounded-lg border p-4 text-sm",
+              message.status === "quarantined" ? "border-destructive/40 bg-destructive/5" : "border-border/50"
+            )}
+          >
+            <p className="font-medium text-foreground">
+              Spam score {Math.round((message.spam_score ?? 0) * 100)}%
+              {message.status === "quarantined" && (
+                <span className="font-normal text-muted-foreground"> · held back, no emails were sent</span>
+              )}
+            </p>
+            <ul className="mt-2 space-y-1 text-muted-foreground">
+              {spamSignals.map((signal) => (
+                <li key={signal.name}>
+                  {SPAM_SIGNAL_LABELS[signal.name] ?? signal.name}: {signal.detail}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {inquiryDetails.length > 0 && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 rounded-lg border border-border/50 bg-secondary/30 p-4 text-sm">
+            {inquiryDetails.map(({ field, label, value }) => (
+              <div key={field} className="contents">
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="text-foreground break-words">
+                  {field === "link" ? (
+                    <a href={value} target="_blank" rel="noopener noreferrer nofollow" className="text-primary hover:underline">
+                      {value}
+                    </a>
+                  ) : (
+                    value
+                  )}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        <ol className="space-y-4" aria-label="Conversation">
+          <li>
+            <p className="whitespace-pre-wrap leading-relaxed text-foreground">{message.message}</p>
+            <AttachmentList messageId={message.id} className="mt-4" />
+          </li>
+          {replies?.map((reply) => (
+            <li key={reply.id} className="ml-6 md:ml-12 rounded-lg border border-primary/20 bg-primary/5 p-4">
+              <div className="flex items-center gap-2 mb-2 text-xs text-muted-foreground">
+                <Reply className="w-3 h-3 text-primary" />
+                <span>You replied</span>
+                <time dateTime={reply.created_at}>{format(new Date(reply.created_at), "PPpp")}</time>
+              </div>
+              <p className="whitespace-pre-wrap leading-relaxed text-foreground">{reply.body}</p>
+            </li>
+          ))}
+        </ol>
+
+        {message.status !== "spam" && message.status !== "quarantined" && (
+          <ReplyComposer messageId={message.id} recipient={message.email} />
+        )}
+
+        <div className="space-y-3 border-t border-border/50 pt-4">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {timeline
+              .filter(({ key }) => message[key])
+              .map(({ key, label }) => (
+                <div key={key} className="contents">
+                  <dt>{label}</dt>
+                  <dd>{format(new Date(message[key] as string), "PPpp")}</dd>
+                </div>
+              ))}
+          </dl>
+          <MessageSource message={message} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MessageDetail;
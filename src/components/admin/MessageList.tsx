@@ -0,0 +1,86 @@
+import { Link, useLocation } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import MessageStatusBadge from "@/components/admin/MessageStatusBadge";
+import { cn } from "@/lib/utils";
+import type { ContactMessage } from "@/hooks/use-contact-messages";
+import { INQUIRY_TYPE_LABELS } from "@shared/inquiry";
+
+type MessageListProps = {
+  messages: ContactMessage[] | undefined;
+  isLoading: boolean;
+  selectedId: string | undefined;
+  search: string;
+};
+
+const MessageList = ({ messages, isLoading, selectedId, search }: MessageListProps) => {
+  const { search: queryString } = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2 p-2">
+        {Array.from({ length: 6 }).map((_, i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!messages?.length) {
+    return (
+      <p className="p-6 text-sm text-muted-foreground text-center">
+        {search ? `No messages match "${search}".` : "No messages here yet."}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-border/50">
+      {messages.map((message) => (
+        <li key={message.id}>
+          <Link
+            to={`/admin/messages/${message.id}${queryString}`}
+            className={cn(
+              "block px-4 py-3 transition-colors hover:bg-secondary/50",
+              selectedId === message.id && "bg-secondary"
+            )}
+          >
+            <div className="flex items-baseline justify-between gap-2">
+              <span
+                className={cn(
+                  "truncate text-foreground",
+                  message.status === "unread" ? "font-semibold" : "font-medium"
+                )}
+              >
+                {message.name}
+              </span>
+              <time
+                dateTime={message.created_at}
+                className="text-xs text-muted-foreground shrink-0"
+              >
+                {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+              </time>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground truncate">{message.email}</span>
+              <div className="flex shrink-0 gap-1">
+                {message.inquiry_type !== "general" && (
+                  <Badge variant="secondary" className="px-2 py-0 text-[10px]">
+                    {INQUIRY_TYPE_LABELS[message.inquiry_type]}
+                  </Badge>
+                )}
+                {message.status !== "unread" && message.status !== "read" && (
+                  <MessageStatusBadge status={message.status} className="px-2 py-0 text-[10px]" />
+                )}
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground truncate mt-1">{message.message}</p>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default MessageList;
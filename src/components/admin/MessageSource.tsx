@@ -0,0 +1,64 @@
+import { useSameIpMessageCount, type ContactMessage } from "@/hooks/use-contact-messages";
+import { LOCALE_LABELS, isLocale } from "@/i18n/config";
+import { UTM_PARAMS, type UtmParams } from "@shared/request-metadata";
+
+const readUtm = (value: unknown): UtmParams =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? Object.fromEntries(
+        UTM_PARAMS.flatMap((param) => {
+          const entry = (value as Record<string, unknown>)[param];
+          return typeof entry === "string" && entry ? [[param, entry]] : [];
+        })
+      )
+    : {};
+
+/** Where the message came from: channel, browser, page language and repeat senders. */
+const MessageSource = ({ message }: { message: ContactMessage }) => {
+  const { data: sameIpCount } = useSameIpMessageCount(message);
+  const utm = readUtm(message.utm);
+  const campaign = [utm.utm_source, utm.utm_medium, utm.utm_campaign].filter(Boolean).join(" / ");
+
+  const rows: { label: string; value: React.ReactNode }[] = [];
+  if (message.referrer) {
+    rows.push({
+      label: "Referred by",
+      value: (
+        <a href={message.referrer} target="_blank" rel="noopener noreferrer nofollow" className="text-primary hover:underline">
+          {new URL(message.referrer).host}
+        </a>
+      ),
+    });
+  }
+  if (campaign) rows.push({ label: "Campaign", value: campaign });
+  if (utm.utm_term || utm.utm_content) {
+    rows.push({ label: "Term / content", value: [utm.utm_term, utm.utm_content].filter(Boolean).join(" / ") });
+  }
+  if (message.user_agent_family) rows.push({ label: "Browser", value: message.user_agent_family });
+  if (message.page_locale) {
+    rows.push({
+      label: "Page language",
+      value: isLocale(message.page_locale) ? LOCALE_LABELS[message.page_locale] : message.page_locale,
+    });
+  }
+  if (sameIpCount) {
+    rows.push({
+      label: "Same IP",
+      value: sameIpCount === 1 ? "1 other message" : `${sameIpCount} other messages`,
+    });
+  }
+
+  if (rows.length === 0) return null;
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs text-muted-foreground" aria-label="Source">
+      {rows.map(({ label, value }) => (
+        <div key={label} className="contents">
+          <dt>{label}</dt>
+          <dd className="break-words">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+export default MessageSource;
@@ -0,0 +1,20 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { MESSAGE_STATUS_LABELS, type MessageStatus } from "@/lib/message-status";
+
+const statusStyles: Record<MessageStatus, string> = {
+  unread: "border-primary/40 text-primary",
+  read: "border-border text-muted-foreground",
+  replied: "border-accent/40 text-accent",
+  archived: "border-border text-muted-foreground",
+  spam: "border-transparent bg-destructive text-destructive-foreground",
+  quarantined: "border-destructive/40 text-destructive",
+};
+
+const MessageStatusBadge = ({ status, className }: { status: MessageStatus; className?: string }) => (
+  <Badge variant="outline" className={cn(statusStyles[status], className)}>
+    {MESSAGE_STATUS_LABELS[status]}
+  </Badge>
+);
+
+export default MessageStatusBadge;
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useSendReply } from "@/hooks/use-contact-messages";
+import { useToast } from "@/hooks/use-toast";
+
+const MAX_REPLY_LENGTH = 10000;
+
+type ReplyComposerProps = {
+  messageId: string;
+  recipient: string;
+};
+
+const ReplyComposer = ({ messageId, recipient }: ReplyComposerProps) => {
+  const [body, setBody] = useState("");
+  const { mutate: sendReply, isPending } = useSendReply();
+  const { toast } = useToast();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    sendReply(
+      { messageId, body: body.trim() },
+      {
+        onSuccess: () => {
+          setBody("");
+          toast({ title: "Reply sent", description: `Your reply to ${recipient} is on its way.` });
+        },
+        onError: (error) => {
+          toast({
+            title: "Reply not sent",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={`Reply to ${recipient}`}
+        rows={5}
+        maxLength={MAX_REPLY_LENGTH}
+        className="bg-secondary border-border/50 focus:border-primary/50 transition-colors resize-y"
+        aria-label="Reply"
+      />
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isPending || !body.trim()}>
+          <Send className="w-4 h-4" />
+          {isPending ? "Sending..." : "Send Reply"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ReplyComposer;
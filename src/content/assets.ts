@@ -0,0 +1,31 @@
+import { Github, Instagram, Linkedin, Mail, type LucideIcon } from "lucide-react";
+
+import project1 from "@/assets/project-1.jpg";
+import project2 from "@/assets/project-2.jpg";
+import project3 from "@/assets/project-3.jpg";
+import project4 from "@/assets/project-4.jpg";
+import project5 from "@/assets/project-5.png";
+import project6 from "@/assets/project-6.png";
+
+import type { ProjectImageKey, SocialIconKey } from "./schema";
+
+const projectImages: Record<ProjectImageKey, string> = {
+  "project-1": project1,
+  "project-2": project2,
+  "project-3": project3,
+  "project-4": project4,
+  "project-5": project5,
+  "project-6": project6,
+};
+
+export const socialIcons: Record<SocialIconKey, LucideIcon> = {
+  mail: Mail,
+  linkedin: Linkedin,
+  github: Github,
+  instagram: Instagram,
+};
+
+/** Resolves a content image reference to a bundled asset URL, or passes external URLs through. */
+export function resolveImage(ref: string): string {
+  return projectImages[ref as ProjectImageKey] ?? ref;
+}
@@ -0,0 +1,16 @@
+import { portfolioData } from "./portfolio";
+import { parsePortfolioContent } from "./schema";
+
+export const portfolioContent = parsePortfolioContent(portfolioData);
+
+export const {
+  profile,
+  projects,
+  certificates,
+  achievements,
+  skillCategories,
+  socialLinks,
+} = portfolioContent;
+
+export { resolveImage, socialIcons } from "./assets";
+export * from "./schema";
@@ -0,0 +1,74 @@
+import type { Locale } from "../i18n/config";
+import { contentTranslations } from "./translations";
+import {
+  projectSlug,
+  type Achievement,
+  type CaseStudy,
+  type Certificate,
+  type PortfolioContent,
+  type Profile,
+  type Project,
+  type SkillCategory,
+} from "./schema";
+
+/**
+ * Per-locale overrides for the portfolio content. Anything not listed keeps
+ * the value from portfolio.ts (or the CMS tables), so translations can be partial.
+ */
+export type ContentTranslation = {
+  profile?: Partial<Pick<Profile, "summary" | "bio" | "location" | "photoAlt" | "softSkills">>;
+  /** Keyed by project id. */
+  projects?: Record<number, Partial<Pick<Project, "title" | "description">> & {
+    caseStudy?: Partial<Omit<CaseStudy, "gallery">>;
+  }>;
+  /** Keyed by the untranslated name. */
+  certificates?: Record<string, string>;
+  achievements?: Record<string, string>;
+  skillCategories?: Record<string, string>;
+};
+
+const translationFor = (locale: Locale): ContentTranslation => contentTranslations[locale] ?? {};
+
+export function localizeProfile(profile: Profile, locale: Locale): Profile {
+  return { ...profile, ...translationFor(locale).profile };
+}
+
+export function localizeProjects(projects: Project[], locale: Locale): Project[] {
+  const overrides = translationFor(locale).projects ?? {};
+  return projects.map((project) => {
+    const { caseStudy, ...fields } = overrides[project.id] ?? {};
+    return {
+      ...project,
+      ...fields,
+      // Pin the slug to the untranslated title so URLs are the same in every locale.
+      slug: projectSlug(project),
+      caseStudy: project.caseStudy && { ...project.caseStudy, ...caseStudy },
+    };
+  });
+}
+
+export function localizeCertificates(certificates: Certificate[], locale: Locale): Certificate[] {
+  const names = translationFor(locale).certificates ?? {};
+  return certificates.map((cert) => ({ ...cert, name: names[cert.name] ?? cert.name }));
+}
+
+export function localizeAchievements(achievements: Achievement[], locale: Locale): Achievement[] {
+  const names = translationFor(locale).achievements ?? {};
+  return achievements.map((ach) => ({ ...ach, name: names[ach.name] ?? ach.name }));
+}
+
+export function localizeSkillCategories(categories: SkillCategory[], locale: Locale): SkillCategory[] {
+  const names = translationFor(locale).skillCategories ?? {};
+  return categories.map((cat) => ({ ...cat, category: names[cat.category] ?? cat.category }));
+}
+
+export function localizeContent(content: PortfolioContent, locale: Locale): PortfolioContent {
+  return {
+    ...content,
+    profile: localizeProfile(content.profile, locale),
+    projects: localizeProjects(content.projects, locale),
+    certificates: localizeCertificates(content.certificates, locale),
+    achievements: localizeAchievements(content.achievements, locale),
+    skillCategories: localizeSkillCategories(content.skillCategories, locale),
+  };
+}
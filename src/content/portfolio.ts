@@ -0,0 +1,205 @@
+import type { PortfolioContentInput } from "./schema";
+
+// Edit this file to update the portfolio. Every entry is validated against
+// ./schema.ts at build time, so typos in URLs, years or image keys fail the build.
+export const portfolioData: PortfolioContentInput = {
+  profile: {
+    name: "Fatur Rahman",
+    summary:
+      "Fresh Graduate in Computer Technology from IT Del with a strong focus on cybersecurity, cloud computing, networking, and IoT systems.",
+    bio: [
+      "Hi, I’m Fatur Rahman, a fresh graduate from the Computer Technology Study Program, IT Del in Toba, North Sumatra. I have a strong passion for cybersecurity, cloud computing, and networking, with additional interest in IoT automation, web development, and digital 3D design.",
+      "I enjoy applying technology to solve real-world problems—whether it’s building responsive websites, automating systems with IoT, securing networks, or designing creative digital solutions. Through academic projects and self-learning, I have developed a balance of technical expertise, problem-solving skills, and adaptability to new challenges.",
+    ],
+    email: "faturrahman3384@gmail.com",
+    location: "Toba, North Sumatra",
+    photoAlt: "Fatur Rahman",
+    coreTechnologies: [
+      "Python", "C/C++", "JavaScript", "PHP",
+      "Linux", "Docker", "Arduino", "SolidWorks",
+      "Cisco", "VMware", "Laravel", "IoT",
+    ],
+    softSkills: [
+      "Analytical Thinking",
+      "Problem Solving",
+      "Collaboration",
+      "Adaptability",
+      "Communication",
+    ],
+  },
+
+  projects: [
+    {
+      id: 1,
+      title: "PDLC Glass System with UV Detection",
+      description: "Leading the development of UV detection systems and automatic curtains to improve safety and energy efficiency, reducing UV exposure by up to 80% in indoor environments.",
+      image: "project-1",
+      technologies: ["C", "Arduino IDE", "ML8511 Sensor", "DHT11", "Arduino Uno"],
+      caseStudy: {
+        problem: "Rooms facing direct sunlight let in high levels of UV radiation and heat, and manually adjusting curtains or blinds throughout the day is easy to forget.",
+        role: "Project lead — responsible for the sensing logic, microcontroller firmware and integration of the PDLC glass and curtain actuators.",
+        approach: [
+          "Measured UV intensity with an ML8511 sensor and ambient temperature/humidity with a DHT11.",
+          "Wrote C firmware on an Arduino Uno that switches the PDLC film to opaque and closes the motorised curtain when UV crosses a threshold.",
+        ],
+        outcomes: [
+          "Reduced indoor UV exposure by up to 80% in testing.",
+          "Fully automatic operation with no manual input, improving both comfort and energy efficiency.",
+        ],
+        gallery: ["project-1"],
+      },
+    },
+    {
+      id: 2,
+      title: "Automatic Garbage Collection Ship",
+      description: "3D casing design in SolidWorks for autonomous garbage collection ship that detects garbage in waters and monitors pollution levels using camera detection.",
+      image: "project-2",
+      technologies: ["SolidWorks", "3D Design", "Environmental Monitoring"],
+      caseStudy: {
+        problem: "Floating waste in rivers and lakes is tedious and costly to collect by hand, and pollution levels are rarely monitored continuously.",
+        role: "Mechanical designer — modelled the vessel casing in SolidWorks for the autonomous collection system.",
+        approach: [
+          "Modelled the vessel casing in SolidWorks to house the electronics and the camera used for garbage detection.",
+          "Shaped the design around the environmental monitoring equipment carried on board.",
+        ],
+        outcomes: [
+          "A complete 3D casing design used by the team's autonomous ship prototype.",
+          "A platform for camera-based garbage detection and water pollution monitoring.",
+        ],
+        gallery: ["project-2"],
+      },
+    },
+    {
+      id: 3,
+      title: "I-Travel Website Information System",
+      description: "Comprehensive travel website providing information about tourist attractions, restaurants, accommodations, and travel routes between Kualanamu and Silangit Airports.",
+      image: "project-3",
+      technologies: ["HTML", "CSS", "JavaScript", "PHP", "SQL"],
+      caseStudy: {
+        problem: "Travellers arriving through Kualanamu or Silangit airports had no single place to find attractions, food, lodging and routes between the two.",
+        role: "Web developer — built the front end and the PHP/SQL back end of the information system.",
+        approach: [
+          "Modelled attractions, restaurants, accommodations and routes in a relational SQL database.",
+          "Built server-rendered PHP pages with HTML, CSS and JavaScript for browsing and searching the data.",
+          "Documented the travel routes between Kualanamu and Silangit Airports as a dedicated section.",
+        ],
+        outcomes: [
+          "One website covering attractions, dining, accommodation and airport routes for the region.",
+        ],
+        gallery: ["project-3"],
+      },
+    },
+    {
+      id: 4,
+      title: "Mesh LoRa on NS3 Simulator",
+      description: "Development and simulation of LoRa Mesh networks using NS3 simulator to optimize long-range and energy-efficient communication performance for IoT applications.",
+      image: "project-4",
+      technologies: ["NS3", "Ubuntu", "LoRa", "Network Simulation"],
+      caseStudy: {
+        problem: "LoRa offers long range at low power, but star topologies limit coverage; a mesh can extend it at the cost of extra traffic and energy.",
+        role: "Researcher — built and ran the network simulations and analysed the results.",
+        approach: [
+          "Set up NS3 on Ubuntu with LoRa modules and implemented a mesh forwarding scenario.",
+          "Simulated LoRa mesh topologies to evaluate range and energy-efficiency trade-offs.",
+        ],
+        outcomes: [
+          "Simulation results describing how mesh LoRa can improve long-range, energy-efficient communication for IoT deployments.",
+        ],
+        gallery: ["project-4"],
+      },
+    },
+    {
+      id: 5,
+      title: "Deep Focus",
+      description: "A productivity and focus application designed to help users concentrate on their tasks with minimal distractions.",
+      image: "project-5",
+      technologies: ["React", "TypeScript", "Tailwind CSS"],
+      url: "https://deep-focuss.lovable.app",
+    },
+    {
+      id: 6,
+      title: "Toba Market",
+      description: "An e-commerce marketplace platform showcasing products and services from the Toba region.",
+      image: "project-6",
+      technologies: ["React", "TypeScript", "Tailwind CSS"],
+      url: "https://tobamarket.lovable.app",
+    },
+  ],
+
+  certificates: [
+    { year: "2026", name: "Cisco Internet of Things" },
+    { year: "2026", name: "CCNA 200-301 Network Fundamentals" },
+    { year: "2025", name: "Accelerate Your Job Search with AI" },
+    { year: "2025", name: "Operating Systems and You: Becoming a Power User" },
+    { year: "2025", name: "The Bits and Bytes of Computer Networking" },
+    { year: "2025", name: "Sertifikat Pencapaian TOEFL ITP" },
+    { year: "2024", name: "HCIA-Storage V4.5 Course" },
+    { year: "2024", name: "HCIA-IoT V3.0 Course" },
+    { year: "2024", name: "HCIA-Datacom V1.0 Course" },
+    { year: "2023", name: "HCIA-Cloud Service V3.5 (Indonesian)" },
+  ],
+
+  achievements: [
+    { year: "2024", name: "3rd place in on-campus CTF competition" },
+    { year: "2024", name: "Huawei ICT Competition 2024-2025 National Final" },
+    { year: "2024", name: "Participated in KRI (Kontes Robot Indonesia)" },
+  ],
+
+  skillCategories: [
+    {
+      category: "Network Engineering",
+      items: ["WAN", "LAN", "EIGRP", "OSPF", "NAT Configuration", "Cisco Packet Tracer"],
+    },
+    {
+      category: "Virtualization",
+      items: ["Ubuntu Linux", "Kali Linux", "VMware", "VirtualBox", "CentOS", "Docker"],
+    },
+    {
+      category: "Internet of Things (IoT)",
+      items: ["Sensor Integration", "MQTT", "Arduino IDE", "Proteus"],
+    },
+    {
+      category: "Embedded Systems",
+      items: ["Arduino", "ESP32", "Microcontroller Programming", "Proteus"],
+    },
+    {
+      category: "Web Programming",
+      items: ["HTML", "CSS", "JavaScript", "Laravel", "Bootstrap"],
+    },
+    {
+      category: "Cloud Computing",
+      items: ["Ansible for Automation", "VMware"],
+    },
+    {
+      category: "Mechanical Design",
+      items: ["SolidWorks for Product Modeling", "Robotics"],
+    },
+  ],
+
+  socialLinks: [
+    {
+      name: "Email",
+      icon: "mail",
+      url: "mailto:faturrahman3384@gmail.com",
+      color: "hover:text-red-400",
+    },
+    {
+      name: "LinkedIn",
+      icon: "linkedin",
+      url: "https://www.linkedin.com/in/fatur-rahman-6711b4287",
+      color: "hover:text-blue-400",
+    },
+    {
+      name: "GitHub",
+      icon: "github",
+      url: "https://github.com/Faturrahman080402",
+      color: "hover:text-gray-400",
+    },
+    {
+      name: "Instagram",
+      icon: "instagram",
+      url: "https://www.instagram.com/ftrachman14/?hl=en",
+      color: "hover:text-pink-400",
+    },
+  ],
+};
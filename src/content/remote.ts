@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  AchievementSchema,
+  CertificateSchema,
+  ProjectListSchema,
+  SkillCategorySchema,
+  SocialLinkSchema,
+  type Achievement,
+  type Certificate,
+  type Project,
+  type SkillCategory,
+  type SocialLink,
+} from "./schema";
+
+// Rows coming back from the CMS tables are re-validated with the same schemas
+// as the bundled content, so a bad row never reaches the UI.
+
+export async function fetchProjects(): Promise<Project[]> {
+  const { data, error } = await supabase.from("projects").select("*").order("sort_order");
+  if (error) throw error;
+  return ProjectListSchema.parse(
+    data.map((row) => ({
+      id: row.id,
+      slug: row.slug,
+      title: row.title,
+      description: row.description,
+      image: row.image,
+      technologies: row.technologies,
+      url: row.url ?? undefined,
+      caseStudy: row.case_study ?? undefined,
+    }))
+  );
+}
+
+export async function fetchCertificates(): Promise<Certificate[]> {
+  const { data, error } = await supabase.from("certificates").select("year, name").order("sort_order");
+  if (error) throw error;
+  return z.array(CertificateSchema).parse(data);
+}
+
+export async function fetchAchievements(): Promise<Achievement[]> {
+  const { data, error } = await supabase.from("achievements").select("year, name").order("sort_order");
+  if (error) throw error;
+  return z.array(AchievementSchema).parse(data);
+}
+
+export async function fetchSkillCategories(): Promise<SkillCategory[]> {
+  const { data, error } = await supabase.from("skill_categories").select("category, items").order("sort_order");
+  if (error) throw error;
+  return z.array(SkillCategorySchema).parse(data);
+}
+
+export async function fetchSocialLinks(): Promise<SocialLink[]> {
+  const { data, error } = await supabase.from("social_links").select("name, icon, url, color").order("sort_order");
+  if (error) throw error;
+  return z.array(SocialLinkSchema).parse(data);
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+
+/**
+ * Images shipped with the bundle. Content entries reference them by key so the
+ * data itself stays plain (and can be validated outside of Vite).
+ */
+export const PROJECT_IMAGE_KEYS = [
+  "project-1",
+  "project-2",
+  "project-3",
+  "project-4",
+  "project-5",
+  "project-6",
+] as const;
+
+export const SOCIAL_ICON_KEYS = ["mail", "linkedin", "github", "instagram"] as const;
+
+const yearSchema = z.string().regex(/^\d{4}$/, "Year must be a 4-digit string");
+
+const imageRefSchema = z
+  .string()
+  .refine(
+    (value) => (PROJECT_IMAGE_KEYS as readonly string[]).includes(value) || /^https?:\/\//.test(value),
+    { message: `Image must be one of ${PROJECT_IMAGE_KEYS.join(", ")} or an http(s) URL` }
+  );
+
+const slugSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug must be lowercase words separated by hyphens");
+
+export const CaseStudySchema = z.object({
+  problem: z.string().min(1),
+  role: z.string().min(1),
+  approach: z.array(z.string().min(1)).min(1),
+  outcomes: z.array(z.string().min(1)).min(1),
+  gallery: z.array(imageRefSchema).default([]),
+});
+
+export const ProjectSchema = z.object({
+  id: z.number().int().positive(),
+  /** Optional override; otherwise derived from the title (see projectSlug). */
+  slug: slugSchema.optional(),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  image: imageRefSchema,
+  technologies: z.array(z.string().min(1)).min(1),
+  url: z.string().url().optional(),
+  caseStudy: CaseStudySchema.optional(),
+});
+
+export const CertificateSchema = z.object({
+  year: yearSchema,
+  name: z.string().min(1),
+});
+
+export const AchievementSchema = z.object({
+  year: yearSchema,
+  name: z.string().min(1),
+});
+
+export const SkillCategorySchema = z.object({
+  category: z.string().min(1),
+  items: z.array(z.string().min(1)).min(1),
+});
+
+export const SocialLinkSchema = z.object({
+  name: z.string().min(1),
+  icon: z.enum(SOCIAL_ICON_KEYS),
+  url: z.string().url(),
+  color: z.string().min(1),
+});
+
+export const ProfileSchema = z.object({
+  name: z.string().min(1),
+  summary: z.string().min(1),
+  bio: z.array(z.string().min(1)).min(1),
+  email: z.string().email(),
+  location: z.string().min(1),
+  photoAlt: z.string().min(1),
+  coreTechnologies: z.array(z.string().min(1)),
+  softSkills: z.array(z.string().min(1)),
+});
+
+const uniqueBy = <T>(key: (item: T) => string | number, label: string) =>
+  (items: T[], ctx: z.RefinementCtx) => {
+    const seen = new Set<string | number>();
+    items.forEach((item, index) => {
+      const value = key(item);
+      if (seen.has(value)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index],
+          message: `Duplicate ${label} "${value}"`,
+        });
+      }
+      seen.add(value);
+    });
+  };
+
+export const slugify = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/** Stable URL slug for /projects/:slug. */
+export const projectSlug = (project: Pick<Project, "slug" | "title">) => project.slug ?? slugify(project.title);
+
+export const ProjectListSchema = z
+  .array(ProjectSchema)
+  .superRefine(uniqueBy((p) => p.id, "project id"))
+  .superRefine(uniqueBy((p) => projectSlug(p), "project slug"));
+
+export const PortfolioContentSchema = z.object({
+  profile: ProfileSchema,
+  projects: ProjectListSchema,
+  certificates: z.array(CertificateSchema),
+  achievements: z.array(AchievementSchema),
+  skillCategories: z.array(SkillCategorySchema).superRefine(uniqueBy((c) => c.category, "skill category")),
+  socialLinks: z.array(SocialLinkSchema),
+});
+
+export type ProjectImageKey = (typeof PROJECT_IMAGE_KEYS)[number];
+export type SocialIconKey = (typeof SOCIAL_ICON_KEYS)[number];
+export type CaseStudy = z.infer<typeof CaseStudySchema>;
+export type Project = z.infer<typeof ProjectSchema>;
+export type Certificate = z.infer<typeof CertificateSchema>;
+export type Achievement = z.infer<typeof AchievementSchema>;
+export type SkillCategory = z.infer<typeof SkillCategorySchema>;
+export type SocialLink = z.infer<typeof SocialLinkSchema>;
+export type Profile = z.infer<typeof ProfileSchema>;
+export type PortfolioContent = z.infer<typeof PortfolioContentSchema>;
+export type PortfolioContentInput = z.input<typeof PortfolioContentSchema>;
+
+export class ContentValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid portfolio content:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ContentValidationError";
+  }
+}
+
+const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (acc, segment) => (typeof segment === "number" ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment),
+    ""
+  );
+
+/**
+ * Validates raw portfolio content. Throws a ContentValidationError listing every
+ * offending entry (e.g. `projects[3].url: Invalid url`) so a bad edit fails loudly.
+ */
+export function parsePortfolioContent(input: unknown): PortfolioContent {
+  const result = PortfolioContentSchema.safeParse(input);
+  if (!result.success) {
+    throw new ContentValidationError(
+      result.error.issues.map((issue) => `${formatPath(issue.path) || "(root)"}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,132 @@
+import type { Locale } from "../i18n/config";
+import type { ContentTranslation } from "./localize";
+
+// Translations of the entries in portfolio.ts. Project overrides are keyed by
+// id; certificates, achievements and skill categories by their original name.
+export const contentTranslations: Partial<Record<Locale, ContentTranslation>> = {
+  en: {
+    certificates: {
+      "Sertifikat Pencapaian TOEFL ITP": "TOEFL ITP Certificate of Achievement",
+    },
+  },
+
+  id: {
+    profile: {
+      summary:
+        "Lulusan baru Teknologi Komputer dari IT Del dengan fokus kuat pada keamanan siber, komputasi awan, jaringan, dan sistem IoT.",
+      bio: [
+        "Halo, saya Fatur Rahman, lulusan baru Program Studi Teknologi Komputer, IT Del di Toba, Sumatera Utara. Saya sangat tertarik pada keamanan siber, komputasi awan, dan jaringan, serta memiliki minat tambahan pada otomasi IoT, pengembangan web, dan desain 3D digital.",
+        "Saya senang menerapkan teknologi untuk menyelesaikan masalah nyata—baik membangun situs web yang responsif, mengotomatiskan sistem dengan IoT, mengamankan jaringan, maupun merancang solusi digital yang kreatif. Melalui proyek akademik dan belajar mandiri, saya mengembangkan keseimbangan antara keahlian teknis, kemampuan memecahkan masalah, dan kemampuan beradaptasi dengan tantangan baru.",
+      ],
+      location: "Toba, Sumatera Utara",
+      softSkills: [
+        "Berpikir Analitis",
+        "Pemecahan Masalah",
+        "Kolaborasi",
+        "Kemampuan Beradaptasi",
+        "Komunikasi",
+      ],
+    },
+
+    projects: {
+      1: {
+        title: "Sistem Kaca PDLC dengan Deteksi UV",
+        description:
+          "Memimpin pengembangan sistem deteksi UV dan tirai otomatis untuk meningkatkan keamanan dan efisiensi energi, mengurangi paparan UV hingga 80% di dalam ruangan.",
+        caseStudy: {
+          problem:
+            "Ruangan yang terkena sinar matahari langsung menerima radiasi UV dan panas yang tinggi, dan menyesuaikan tirai secara manual sepanjang hari mudah terlupakan.",
+          role: "Ketua proyek — bertanggung jawab atas logika sensor, firmware mikrokontroler, serta integrasi kaca PDLC dan aktuator tirai.",
+          approach: [
+            "Mengukur intensitas UV dengan sensor ML8511 serta suhu dan kelembapan ruangan dengan DHT11.",
+            "Menulis firmware C pada Arduino Uno yang membuat film PDLC menjadi buram dan menutup tirai bermotor saat UV melewati ambang batas.",
+          ],
+          outcomes: [
+            "Mengurangi paparan UV di dalam ruangan hingga 80% dalam pengujian.",
+            "Beroperasi sepenuhnya otomatis tanpa input manual, meningkatkan kenyamanan sekaligus efisiensi energi.",
+          ],
+        },
+      },
+      2: {
+        title: "Kapal Pengumpul Sampah Otomatis",
+        description:
+          "Desain casing 3D di SolidWorks untuk kapal pengumpul sampah otonom yang mendeteksi sampah di perairan dan memantau tingkat polusi menggunakan deteksi kamera.",
+        caseStudy: {
+          problem:
+            "Sampah terapung di sungai dan danau sulit serta mahal untuk dikumpulkan secara manual, dan tingkat polusi jarang dipantau secara berkelanjutan.",
+          role: "Perancang mekanik — memodelkan casing kapal di SolidWorks untuk sistem pengumpul otonom.",
+          approach: [
+            "Memodelkan casing kapal di SolidWorks untuk menampung elektronik dan kamera yang digunakan untuk mendeteksi sampah.",
+            "Menyesuaikan desain dengan peralatan pemantauan lingkungan yang dibawa kapal.",
+          ],
+          outcomes: [
+            "Desain casing 3D lengkap yang digunakan pada purwarupa kapal otonom tim.",
+            "Platform untuk deteksi sampah berbasis kamera dan pemantauan polusi air.",
+          ],
+        },
+      },
+      3: {
+        title: "Sistem Informasi Website I-Travel",
+        description:
+          "Situs web perjalanan lengkap yang menyediakan informasi tentang tempat wisata, restoran, akomodasi, dan rute perjalanan antara Bandara Kualanamu dan Silangit.",
+        caseStudy: {
+          problem:
+            "Wisatawan yang tiba melalui Bandara Kualanamu atau Silangit tidak memiliki satu tempat untuk menemukan tempat wisata, kuliner, penginapan, dan rute di antara keduanya.",
+          role: "Pengembang web — membangun antarmuka serta back end PHP/SQL sistem informasi.",
+          approach: [
+            "Memodelkan tempat wisata, restoran, akomodasi, dan rute dalam basis data SQL relasional.",
+            "Membangun halaman PHP dengan HTML, CSS, dan JavaScript untuk menjelajah dan mencari data.",
+            "Mendokumentasikan rute perjalanan antara Bandara Kualanamu dan Silangit dalam bagian khusus.",
+          ],
+          outcomes: [
+            "Satu situs web yang mencakup wisata, kuliner, akomodasi, dan rute bandara di kawasan tersebut.",
+          ],
+        },
+      },
+      4: {
+        title: "Mesh LoRa pada Simulator NS3",
+        description:
+          "Pengembangan dan simulasi jaringan LoRa Mesh menggunakan simulator NS3 untuk mengoptimalkan performa komunikasi jarak jauh dan hemat energi pada aplikasi IoT.",
+        caseStudy: {
+          problem:
+            "LoRa menawarkan jangkauan jauh dengan daya rendah, tetapi topologi bintang membatasi cakupan; mesh dapat memperluasnya dengan konsekuensi lalu lintas dan energi tambahan.",
+          role: "Peneliti — membangun dan menjalankan simulasi jaringan serta menganalisis hasilnya.",
+          approach: [
+            "Menyiapkan NS3 di Ubuntu dengan modul LoRa dan mengimplementasikan skenario penerusan mesh.",
+            "Menyimulasikan topologi mesh LoRa untuk mengevaluasi pertukaran antara jangkauan dan efisiensi energi.",
+          ],
+          outcomes: [
+            "Hasil simulasi yang menunjukkan bagaimana mesh LoRa dapat meningkatkan komunikasi jarak jauh yang hemat energi untuk penerapan IoT.",
+          ],
+        },
+      },
+      5: {
+        description:
+          "Aplikasi produktivitas dan fokus yang dirancang untuk membantu pengguna berkonsentrasi pada tugas dengan gangguan seminimal mungkin.",
+      },
+      6: {
+        description: "Platform marketplace e-commerce yang menampilkan produk dan layanan dari kawasan Toba.",
+      },
+    },
+
+    certificates: {
+      "HCIA-Cloud Service V3.5 (Indonesian)": "HCIA-Cloud Service V3.5 (Bahasa Indonesia)",
+    },
+
+    achievements: {
+      "3rd place in on-campus CTF competition": "Juara 3 kompetisi CTF tingkat kampus",
+      "Huawei ICT Competition 2024-2025 National Final": "Final Nasional Huawei ICT Competition 2024-2025",
+      "Participated in KRI (Kontes Robot Indonesia)": "Peserta KRI (Kontes Robot Indonesia)",
+    },
+
+    skillCategories: {
+      "Network Engineering": "Rekayasa Jaringan",
+      "Virtualization": "Virtualisasi",
+      "Internet of Things (IoT)": "Internet of Things (IoT)",
+      "Embedded Systems": "Sistem Tertanam",
+      "Web Programming": "Pemrograman Web",
+      "Cloud Computing": "Komputasi Awan",
+      "Mechanical Design": "Desain Mekanik",
+    },
+  },
+};
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import {
+  clearContactDraft,
+  loadContactDraft,
+  saveContactDraft,
+  type ContactDraft,
+  type ContactDraftValues,
+} from "@/lib/contact-draft";
+import { fetchStartToken } from "@/lib/contact";
+import type { ContactFormInput, ContactSubmission } from "@shared/contact-schema";
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * Autosaves the contact form to localStorage (debounced, flushed when the page
+ * is hidden or the form unmounts) and offers the draft left by an earlier
+ * visit. Autosave waits until that draft is restored or discarded, so typing
+ * in the meantime can't overwrite it.
+ *
+ * Also owns the draft's idempotency key and start token. The key survives
+ * reloads with the draft and is replaced only after a successful submit. The
+ * start token is requested from submit-contact when the visitor first focuses
+ * the form (`begin`), saved with the draft, and dropped after a submit.
+ */
+export function useContactDraft(
+  form: UseFormReturn<ContactFormInput, unknown, ContactSubmission>,
+  emptyValues: ContactFormInput
+) {
+  const [draft, setDraft] = useState<ContactDraft | null>(() => loadContactDraft());
+  // True until the visitor restores or discards the saved draft
+  const awaitingChoice = draft !== null;
+  const [idempotencyKey, setIdempotencyKey] = useState<string>(() => crypto.randomUUID());
+  const unsaved = useRef<ContactDraftValues | null>(null);
+  const startToken = useRef<string | undefined>(undefined);
+  const tokenRequest = useRef<Promise<string> | null>(null);
+
+  useEffect(() => {
+    if (awaitingChoice) return;
+
+    let timer: number | undefined;
+    const flush = () => {
+      window.clearTimeout(timer);
+      if (unsaved.current) saveContactDraft(unsaved.current, idempotencyKey, startToken.current);
+      unsaved.current = null;
+    };
+
+    const subscription = form.watch((values) => {
+      unsaved.current = values as ContactDraftValues;
+      window.clearTimeout(timer);
+      timer = window.setTimeout(flush, AUTOSAVE_DELAY_MS);
+    });
+    window.addEventListener("pagehide", flush);
+    return () => {
+      subscription.unsubscribe();
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [form, awaitingChoice, idempotencyKey]);
+
+  /** The start token, fetching it if `begin` hasn't already; a failed fetch is retried on the next call. */
+  const requestStartToken = useCallback(() => {
+    if (startToken.current) return Promise.resolve(startToken.current);
+    tokenRequest.current ??= fetchStartToken().then(
+      (token) => (startToken.current = token),
+      (error) => {
+        tokenRequest.current = null;
+        throw error;
+      }
+    );
+    return tokenRequest.current;
+  }, []);
+
+  const begin = useCallback(() => {
+    requestStartToken().catch((error) => console.error("Could not get a contact start token:", error));
+  }, [requestStartToken]);
+
+  const restore = useCallback(() => {
+    if (!draft) return;
+    form.reset({ ...emptyValues, ...draft.values });
+    setIdempotencyKey(draft.key);
+    if (draft.startToken) {
+      startToken.current = draft.startToken;
+      tokenRequest.current = null;
+    }
+    setDraft(null);
+  }, [draft, emptyValues, form]);
+
+  const discard = useCallback(() => {
+    clearContactDraft();
+    setDraft(null);
+  }, []);
+
+  /** After a successful submit: forget the draft, including any save still waiting, and start a new key and token. */
+  const clear = useCallback(() => {
+    unsaved.current = null;
+    startToken.current = undefined;
+    tokenRequest.current = null;
+    clearContactDraft();
+    setIdempotencyKey(crypto.randomUUID());
+  }, []);
+
+  return { pending: awaitingChoice, idempotencyKey, restore, discard, clear, begin, startToken: requestStartToken };
+}
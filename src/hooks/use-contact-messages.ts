@@ -0,0 +1,249 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { MESSAGE_VIEWS, type MessageStatus, type MessageView } from "@/lib/message-status";
+import { ATTACHMENT_BUCKET } from "@shared/attachments";
+
+export type ContactMessage = Tables<"contact_messages">;
+export type ContactReply = Tables<"contact_replies">;
+export type ContactAttachment = Tables<"contact_attachments">;
+export type BlocklistEntry = Tables<"blocklist">;
+export type ContactSpamAttempt = Tables<"contact_spam_attempts">;
+
+const MESSAGE_PAGE_SIZE = 100;
+
+// PostgREST filter strings use , ( ) as syntax and % _ * as wildcards.
+const toSearchPattern = (term: string) => `%${term.replace(/[%_*,()\\]/g, " ").trim()}%`;
+
+export function useIsSiteOwner(userId: string | undefined) {
+  return useQuery({
+    queryKey: ["admin", "is-owner", userId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("is_site_owner");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+}
+
+export function useContactMessages(search: string, view: MessageView) {
+  const term = search.trim();
+
+  return useQuery({
+    queryKey: ["admin", "contact-messages", view, term],
+    queryFn: async () => {
+      let query = supabase
+        .from("contact_messages")
+        .select("*")
+        .in("status", [...MESSAGE_VIEWS[view].statuses])
+        .order("created_at", { ascending: false })
+        .limit(MESSAGE_PAGE_SIZE);
+
+      if (term) {
+        const pattern = toSearchPattern(term);
+        query = query.or(`name.ilike.${pattern},email.ilike.${pattern},message.ilike.${pattern}`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useContactMessage(id: string | undefined) {
+  return useQuery({
+    queryKey: ["admin", "contact-message", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("contact_messages")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+}
+
+export function useUnreadMessageCount() {
+  return useQuery({
+    queryKey: ["admin", "unread-count"],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from("contact_messages")
+        .select("id", { count: "exact", head: true })
+        .eq("status", "unread");
+      if (error) throw error;
+      return count ?? 0;
+    },
+  });
+}
+
+/** How many other messages were sent from the same (hashed) IP address. */
+export function useSameIpMessageCount(message: Pick<ContactMessage, "id" | "ip_hash"> | null | undefined) {
+  return useQuery({
+    queryKey: ["admin", "same-ip-count", message?.id],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from("contact_messages")
+        .select("id", { count: "exact", head: true })
+        .eq("ip_hash", message!.ip_hash!)
+        .neq("id", message!.id);
+      if (error) throw error;
+      return count ?? 0;
+    },
+    enabled: !!message?.ip_hash,
+  });
+}
+
+export function useSetMessageStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: MessageStatus }) => {
+      const { data, error } = await supabase.rpc("set_contact_message_status", {
+        message_id: id,
+        new_status: status,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (message) => {
+      queryClient.setQueryData(["admin", "contact-message", message.id], message);
+      queryClient.invalidateQueries({ queryKey: ["admin", "contact-messages"] });
+      queryClient.invalidateQueries({ queryKey: ["admin", "unread-count"] });
+    },
+  });
+}
+
+export function useMessageReplies(messageId: string | undefined) {
+  return useQuery({
+    queryKey: ["admin", "contact-replies", messageId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("contact_replies")
+        .select("*")
+        .eq("message_id", messageId)
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!messageId,
+  });
+}
+
+export function useMessageAttachments(messageId: string | undefined) {
+  return useQuery({
+    queryKey: ["admin", "contact-attachments", messageId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("contact_attachments")
+        .select("*")
+        .eq("message_id", messageId)
+        .order("position");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!messageId,
+  });
+}
+
+// Long enough to start the download, short enough that a leaked link is useless.
+const ATTACHMENT_LINK_TTL_SECONDS = 60;
+
+/** Resolves with a short-lived download link; the bucket is private and only the owner may sign. */
+export function useAttachmentDownload() {
+  return useMutation({
+    mutationFn: async (attachment: ContactAttachment) => {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .createSignedUrl(attachment.storage_path, ATTACHMENT_LINK_TTL_SECONDS, { download: attachment.file_name });
+      if (error) throw error;
+      return data.signedUrl;
+    },
+  });
+}
+
+export function useSendReply() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ messageId, body }: { messageId: string; body: string }) => {
+      const { data, error } = await supabase.functions.invoke("send-reply", {
+        body: { messageId, body },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data.reply as ContactReply;
+    },
+    onSuccess: (reply) => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "contact-replies", reply.message_id] });
+      queryClient.invalidateQueries({ queryKey: ["admin", "contact-message", reply.message_id] });
+      queryClient.invalidateQueries({ queryKey: ["admin", "contact-messages"] });
+      queryClient.invalidateQueries({ queryKey: ["admin", "unread-count"] });
+    },
+  });
+}
+
+/** Submissions held back by the spam checks in submit-contact, newest first. */
+export function useSpamAttempts() {
+  return useQuery({
+    queryKey: ["admin", "spam-attempts"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("contact_spam_attempts")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(MESSAGE_PAGE_SIZE);
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useBlocklist() {
+  return useQuery({
+    queryKey: ["admin", "blocklist"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("blocklist")
+        .select("*")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useAddBlocklistEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (entry: TablesInsert<"blocklist">) => {
+      const { data, error } = await supabase.from("blocklist").insert(entry).select().single();
+      if (error?.code === "23505") throw new Error(`${entry.value} is already on the blocklist.`);
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "blocklist"] });
+    },
+  });
+}
+
+export function useRemoveBlocklistEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("blocklist").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "blocklist"] });
+    },
+  });
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+
+const secondsUntil = (until: number | null) =>
+  until ? Math.max(0, Math.ceil((until - Date.now()) / 1000)) : 0;
+
+/** Whole seconds left until the `until` timestamp (ms), ticking once a second; 0 when done or unset. */
+export function useCountdown(until: number | null): number {
+  const [remaining, setRemaining] = useState(() => secondsUntil(until));
+
+  useEffect(() => {
+    setRemaining(secondsUntil(until));
+    if (!until) return;
+
+    const timer = window.setInterval(() => {
+      const left = secondsUntil(until);
+      setRemaining(left);
+      if (left === 0) window.clearInterval(timer);
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [until]);
+
+  return remaining;
+}
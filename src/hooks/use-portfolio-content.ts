@@ -0,0 +1,80 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  achievements,
+  certificates,
+  profile,
+  projects,
+  skillCategories,
+  socialLinks,
+} from "@/content";
+import {
+  localizeAchievements,
+  localizeCertificates,
+  localizeProfile,
+  localizeProjects,
+  localizeSkillCategories,
+} from "@/content/localize";
+import {
+  fetchAchievements,
+  fetchCertificates,
+  fetchProjects,
+  fetchSkillCategories,
+  fetchSocialLinks,
+} from "@/content/remote";
+import type { Locale } from "@/i18n/config";
+import { useI18n } from "@/i18n/context";
+
+const STALE_TIME_MS = 5 * 60 * 1000;
+
+/**
+ * Loads a content collection from Supabase. The bundled content is shown
+ * immediately and is kept whenever Supabase is unreachable, returns an invalid
+ * row, or the table has not been seeded yet.
+ */
+function usePortfolioCollection<T>(key: string, fetcher: () => Promise<T[]>, fallback: T[]): T[] {
+  const { data } = useQuery({
+    queryKey: ["portfolio", key],
+    queryFn: async () => {
+      try {
+        const rows = await fetcher();
+        return rows.length > 0 ? rows : fallback;
+      } catch (error) {
+        console.warn(`Falling back to bundled ${key}:`, error);
+        return fallback;
+      }
+    },
+    placeholderData: fallback,
+    staleTime: STALE_TIME_MS,
+  });
+
+  return data ?? fallback;
+}
+
+/** Applies the active locale's translations on top of whatever the collection resolved to. */
+function useLocalized<T>(items: T[], localize: (items: T[], locale: Locale) => T[]): T[] {
+  const { locale } = useI18n();
+  return useMemo(() => localize(items, locale), [items, localize, locale]);
+}
+
+export const useProfile = () => {
+  const { locale } = useI18n();
+  return useMemo(() => localizeProfile(profile, locale), [locale]);
+};
+
+export const useProjects = () =>
+  useLocalized(usePortfolioCollection("projects", fetchProjects, projects), localizeProjects);
+
+export const useCertificates = () =>
+  useLocalized(usePortfolioCollection("certificates", fetchCertificates, certificates), localizeCertificates);
+
+export const useAchievements = () =>
+  useLocalized(usePortfolioCollection("achievements", fetchAchievements, achievements), localizeAchievements);
+
+export const useSkillCategories = () =>
+  useLocalized(
+    usePortfolioCollection("skill-categories", fetchSkillCategories, skillCategories),
+    localizeSkillCategories
+  );
+
+export const useSocialLinks = () => usePortfolioCollection("social-links", fetchSocialLinks, socialLinks);
@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+
+type ScrollSpyOptions = {
+  /** Distance from the top of the viewport (e.g. the fixed header height) where a section counts as active. */
+  offset?: number;
+  /** Mirror the active section in the URL hash without adding history entries. */
+  syncHash?: boolean;
+};
+
+/**
+ * Tracks which of the given sections is currently under the header using
+ * IntersectionObserver, so nothing runs on every scroll event.
+ */
+export function useScrollSpy(sectionIds: readonly string[], { offset = 100, syncHash = false }: ScrollSpyOptions = {}) {
+  // null until the observer reports, so a deep-linked hash isn't overwritten on mount.
+  const [observedId, setObservedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const visible = new Set<string>();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) visible.add(entry.target.id);
+          else visible.delete(entry.target.id);
+        });
+        // Earliest section in document order wins when several overlap the band.
+        const current = sectionIds.find((id) => visible.has(id));
+        if (current) setObservedId(current);
+      },
+      // A band starting just below the header and covering the upper part of the viewport.
+      { rootMargin: `-${offset}px 0px -60% 0px` }
+    );
+
+    sectionIds.forEach((id) => {
+      const element = document.getElementById(id);
+      if (element) observer.observe(element);
+    });
+
+    return () => observer.disconnect();
+  }, [sectionIds, offset]);
+
+  useEffect(() => {
+    if (!syncHash || !observedId) return;
+    const hash = observedId === sectionIds[0] ? "" : `#${observedId}`;
+    if (window.location.hash === hash) return;
+    // replaceState keeps the back button usable; the router's own state is preserved.
+    window.history.replaceState(window.history.state, "", `${window.location.pathname}${window.location.search}${hash}`);
+  }, [observedId, syncHash, sectionIds]);
+
+  return observedId ?? sectionIds[0];
+}
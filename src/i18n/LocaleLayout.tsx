@@ -0,0 +1,34 @@
+import { useEffect, useMemo } from "react";
+import { Navigate, Outlet, useLocation, useParams } from "react-router-dom";
+import NotFound from "@/pages/NotFound";
+import { isLocale, localePath } from "./config";
+import { detectLocale, saveLocale } from "./preference";
+import { I18nContext, createI18nValue } from "./context";
+
+/** Wraps every /:locale/* route; unknown prefixes fall through to the 404 page. */
+export const LocaleLayout = () => {
+  const { locale } = useParams();
+  const value = useMemo(() => (isLocale(locale) ? createI18nValue(locale) : null), [locale]);
+
+  useEffect(() => {
+    if (!value) return;
+    document.documentElement.lang = value.locale;
+    saveLocale(value.locale);
+  }, [value]);
+
+  if (!value) {
+    return <NotFound />;
+  }
+
+  return (
+    <I18nContext.Provider value={value}>
+      <Outlet />
+    </I18nContext.Provider>
+  );
+};
+
+/** Sends unprefixed URLs (/, /projects/:slug, /#skills) to the visitor's preferred locale. */
+export const LocaleRedirect = () => {
+  const { pathname, search, hash } = useLocation();
+  return <Navigate to={`${localePath(detectLocale(), pathname)}${search}${hash}`} replace />;
+};
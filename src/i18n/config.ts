@@ -0,0 +1,20 @@
+export const LOCALES = ["en", "id"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  id: "Bahasa Indonesia",
+};
+
+export const isLocale = (value: string | undefined | null): value is Locale =>
+  !!value && (LOCALES as readonly string[]).includes(value);
+
+/** Prefixes an app path with the locale, e.g. ("/projects/x", "id") -> "/id/projects/x". */
+export const localePath = (locale: Locale, path = "/") => `/${locale}${path === "/" ? "" : path}`;
+
+/** Swaps the locale segment of a pathname that is already locale-prefixed. */
+export const switchLocalePath = (pathname: string, locale: Locale) =>
+  pathname.replace(/^\/[^/]+/, `/${locale}`);
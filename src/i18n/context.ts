@@ -0,0 +1,21 @@
+import { createContext, useContext } from "react";
+import { DEFAULT_LOCALE, localePath, type Locale } from "./config";
+import { messages, type Messages } from "./messages";
+
+export type I18nContextValue = {
+  locale: Locale;
+  t: Messages;
+  /** Builds a link inside the current locale, e.g. path("/projects/x") -> "/id/projects/x". */
+  path: (to?: string) => string;
+};
+
+export const createI18nValue = (locale: Locale): I18nContextValue => ({
+  locale,
+  t: messages[locale],
+  path: (to) => localePath(locale, to),
+});
+
+// Defaults to English so pages rendered outside a locale route (404, admin) still work.
+export const I18nContext = createContext<I18nContextValue>(createI18nValue(DEFAULT_LOCALE));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,112 @@
+export const en = {
+  nav: {
+    brand: "Portfolio",
+    sections: {
+      home: "Home",
+      about: "About",
+      skills: "Skills",
+      projects: "Projects",
+      contact: "Contact",
+    },
+    openMenu: "Open menu",
+    menuDescription: "Jump to a section of the page",
+    changeTheme: "Change theme",
+    themes: { light: "Light", dark: "Dark", system: "System" },
+    changeLanguage: "Change language",
+  },
+  hero: {
+    viewWork: "View My Work",
+    getInTouch: "Get In Touch",
+  },
+  about: {
+    title: "About Me",
+    subtitle: "Passionate about creating digital solutions that make a difference",
+    coreTechnologies: "Core Technologies",
+  },
+  skills: {
+    title: "Skills, Achievements & Other Experience",
+    subtitle: "A summary of my certifications, skills, and accomplishments",
+    certificates: "Certificates",
+    achievements: "Achievements",
+    softSkills: "Soft Skills",
+    hardSkills: "Hard Skills",
+  },
+  projects: {
+    title: "Featured Projects",
+    subtitle: "A showcase of my recent work, ranging from web applications to mobile solutions",
+  },
+  projectDetail: {
+    back: "Back to projects",
+    visit: "Visit live project",
+    problem: "Problem",
+    role: "My Role",
+    approach: "Approach",
+    outcomes: "Outcomes",
+    gallery: "Gallery",
+    techStack: "Tech Stack",
+    screenshotAlt: (title: string, index: number) => `${title} screenshot ${index}`,
+  },
+  contact: {
+    title: "Let's Work Together",
+    subtitle: "Ready to bring your ideas to life? Get in touch and let's create something amazing together.",
+    formTitle: "Send a Message",
+    namePlaceholder: "Your Name",
+    emailPlaceholder: "Your Email",
+    emailSuggestion: (email: string) => `Did you mean ${email}?`,
+    messagePlaceholder: "Your Message",
+    inquiry: {
+      label: "What's this about?",
+      types: {
+        job: "Job opportunity",
+        freelance: "Freelance project",
+        collaboration: "Collaboration",
+        general: "General question",
+      },
+      fields: {
+        company: "Company",
+        role: "Role",
+        location: "Location (optional)",
+        budget: "Budget (e.g. $2,000–5,000)",
+        timeline: "Timeline (e.g. 6 weeks)",
+        organization: "Organization (optional)",
+        link: "Link to your project (optional)",
+      },
+    },
+    attachments: {
+      label: "Attachments (optional)",
+      hint: "Up to 3 files, 5 MB each: PDF, Word, text, PNG or JPEG.",
+      remove: (name: string) => `Remove ${name}`,
+      uploadFailed: (count: number) =>
+        count === 1
+          ? "One attachment couldn't be uploaded, so please send it by email instead."
+          : `${count} attachments couldn't be uploaded, so please send them by email instead.`,
+    },
+    draft: {
+      title: "Unsent message found",
+      description: "You started writing a message here earlier. Pick up where you left off?",
+      restore: "Restore draft",
+      discard: "Discard",
+    },
+    send: "Send Message",
+    sending: "Sending...",
+    successTitle: "Message sent!",
+    successDescription: "Thank you for reaching out. I'll get back to you soon!",
+    successReference: (reference: string) => `Your reference is ${reference}. A confirmation is on its way to your inbox.`,
+    errorFallback: "Failed to send message. Please try again.",
+    rateLimited: (wait: string) => `Too many messages in a short time. You can send another in ${wait}.`,
+    retryIn: (wait: string) => `Try again in ${wait}`,
+    infoTitle: "Get In Touch",
+    infoText:
+      "I'm always interested in hearing about new opportunities, creative projects, or just having a chat about technology and design. Feel free to reach out!",
+    connectTitle: "Connect With Me",
+  },
+  footer: {
+    copyright: (year: number, name: string) => `© ${year} ${name}. Built with React & Tailwind CSS.`,
+  },
+  notFound: {
+    message: "Oops! Page not found",
+    home: "Return to Home",
+  },
+};
+
+export type Messages = typeof en;
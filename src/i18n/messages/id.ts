@@ -0,0 +1,112 @@
+import type { Messages } from "./en";
+
+export const id: Messages = {
+  nav: {
+    brand: "Portofolio",
+    sections: {
+      home: "Beranda",
+      about: "Tentang",
+      skills: "Keahlian",
+      projects: "Proyek",
+      contact: "Kontak",
+    },
+    openMenu: "Buka menu",
+    menuDescription: "Lompat ke bagian halaman",
+    changeTheme: "Ganti tema",
+    themes: { light: "Terang", dark: "Gelap", system: "Sistem" },
+    changeLanguage: "Ganti bahasa",
+  },
+  hero: {
+    viewWork: "Lihat Karya Saya",
+    getInTouch: "Hubungi Saya",
+  },
+  about: {
+    title: "Tentang Saya",
+    subtitle: "Bersemangat menciptakan solusi digital yang membawa perubahan",
+    coreTechnologies: "Teknologi Utama",
+  },
+  skills: {
+    title: "Keahlian, Prestasi & Pengalaman Lainnya",
+    subtitle: "Ringkasan sertifikasi, keahlian, dan pencapaian saya",
+    certificates: "Sertifikat",
+    achievements: "Prestasi",
+    softSkills: "Soft Skill",
+    hardSkills: "Hard Skill",
+  },
+  projects: {
+    title: "Proyek Unggulan",
+    subtitle: "Kumpulan karya terbaru saya, mulai dari aplikasi web hingga solusi mobile",
+  },
+  projectDetail: {
+    back: "Kembali ke proyek",
+    visit: "Kunjungi proyek",
+    problem: "Masalah",
+    role: "Peran Saya",
+    approach: "Pendekatan",
+    outcomes: "Hasil",
+    gallery: "Galeri",
+    techStack: "Teknologi",
+    screenshotAlt: (title: string, index: number) => `Tangkapan layar ${title} ${index}`,
+  },
+  contact: {
+    title: "Mari Bekerja Sama",
+    subtitle: "Siap mewujudkan ide Anda? Hubungi saya dan mari ciptakan sesuatu yang luar biasa bersama.",
+    formTitle: "Kirim Pesan",
+    namePlaceholder: "Nama Anda",
+    emailPlaceholder: "Email Anda",
+    emailSuggestion: (email: string) => `Maksud Anda ${email}?`,
+    messagePlaceholder: "Pesan Anda",
+    inquiry: {
+      label: "Tentang apa pesan Anda?",
+      types: {
+        job: "Peluang kerja",
+        freelance: "Proyek freelance",
+        collaboration: "Kolaborasi",
+        general: "Pertanyaan umum",
+      },
+      fields: {
+        company: "Perusahaan",
+        role: "Posisi",
+        location: "Lokasi (opsional)",
+        budget: "Anggaran (mis. Rp 10–20 juta)",
+        timeline: "Tenggat waktu (mis. 6 minggu)",
+        organization: "Organisasi (opsional)",
+        link: "Tautan proyek Anda (opsional)",
+      },
+    },
+    attachments: {
+      label: "Lampiran (opsional)",
+      hint: "Hingga 3 file, masing-masing 5 MB: PDF, Word, teks, PNG, atau JPEG.",
+      remove: (name: string) => `Hapus ${name}`,
+      uploadFailed: (count: number) =>
+        count === 1
+          ? "Satu lampiran gagal diunggah, jadi mohon kirimkan melalui email."
+          : `${count} lampiran gagal diunggah, jadi mohon kirimkan melalui email.`,
+    },
+    draft: {
+      title: "Ada pesan yang belum terkirim",
+      description: "Anda sempat menulis pesan di sini sebelumnya. Lanjutkan dari yang terakhir?",
+      restore: "Pulihkan draf",
+      discard: "Buang",
+    },
+    send: "Kirim Pesan",
+    sending: "Mengirim...",
+    successTitle: "Pesan terkirim!",
+    successDescription: "Terima kasih telah menghubungi saya. Saya akan segera membalas!",
+    successReference: (reference: string) => `Nomor referensi Anda ${reference}. Konfirmasi sedang dikirim ke email Anda.`,
+    errorFallback: "Gagal mengirim pesan. Silakan coba lagi.",
+    rateLimited: (wait: string) => `Terlalu banyak pesan dalam waktu singkat. Anda dapat mengirim lagi dalam ${wait}.`,
+    retryIn: (wait: string) => `Coba lagi dalam ${wait}`,
+    infoTitle: "Hubungi Saya",
+    infoText:
+      "Saya selalu tertarik mendengar tentang peluang baru, proyek kreatif, atau sekadar berbincang tentang teknologi dan desain. Jangan ragu untuk menghubungi saya!",
+    connectTitle: "Terhubung Dengan Saya",
+  },
+  footer: {
+    copyright: (year: number, name: string) => `© ${year} ${name}. Dibuat dengan React & Tailwind CSS.`,
+  },
+  notFound: {
+    message: "Ups! Halaman tidak ditemukan",
+    home: "Kembali ke Beranda",
+  },
+};
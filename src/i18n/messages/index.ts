@@ -0,0 +1,7 @@
+import type { Locale } from "../config";
+import { en, type Messages } from "./en";
+import { id } from "./id";
+
+export const messages: Record<Locale, Messages> = { en, id };
+
+export type { Messages };
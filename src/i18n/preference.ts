@@ -0,0 +1,23 @@
+import { DEFAULT_LOCALE, isLocale, type Locale } from "./config";
+
+const LOCALE_STORAGE_KEY = "portfolio-locale";
+
+/** Saved choice first, then the browser language, then the default. */
+export function detectLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage can be unavailable (private mode); fall through to the browser language.
+  }
+  const browser = navigator.language?.slice(0, 2).toLowerCase();
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+}
+
+export function saveLocale(locale: Locale) {
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // Not critical: the locale is still in the URL.
+  }
+}
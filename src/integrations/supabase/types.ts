@@ -14,27 +14,441 @@ export type Database = {
   }
   public: {
     Tables: {
+      achievements: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          sort_order: number
+          updated_at: string
+          year: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          sort_order?: number
+          updated_at?: string
+          year: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          sort_order?: number
+          updated_at?: string
+          year?: string
+        }
+        Relationships: []
+      }
+      blocklist: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          kind: Database["public"]["Enums"]["blocklist_kind"]
+          reason: string | null
+          source_message_id: string | null
+          value: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["blocklist_kind"]
+          reason?: string | null
+          source_message_id?: string | null
+          value: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["blocklist_kind"]
+          reason?: string | null
+          source_message_id?: string | null
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocklist_source_message_id_fkey"
+            columns: ["source_message_id"]
+            isOneToOne: false
+            referencedRelation: "contact_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certificates: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          sort_order: number
+          updated_at: string
+          year: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          sort_order?: number
+          updated_at?: string
+          year: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          sort_order?: number
+          updated_at?: string
+          year?: string
+        }
+        Relationships: []
+      }
+      contact_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string
+          id: string
+          message_id: string
+          position: number
+          size_bytes: number
+          storage_path: string
+          uploaded_at: string | null
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name: string
+          id?: string
+          message_id: string
+          position?: number
+          size_bytes: number
+          storage_path: string
+          uploaded_at?: string | null
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          message_id?: string
+          position?: number
+          size_bytes?: number
+          storage_path?: string
+          uploaded_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "contact_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contact_messages: {
         Row: {
+          archived_at: string | null
+          content_fingerprint: string | null
           created_at: string
           email: string
           id: string
+          idempotency_key: string | null
+          inquiry_details: Json
+          inquiry_type: Database["public"]["Enums"]["contact_inquiry_type"]
+          ip_hash: string | null
           message: string
           name: string
+          page_locale: string | null
+          read_at: string | null
+          referrer: string | null
+          replied_at: string | null
+          spam_at: string | null
+          spam_label: string | null
+          spam_score: number | null
+          spam_signals: Json
+          spam_tokens: string[]
+          status: Database["public"]["Enums"]["contact_message_status"]
+          status_changed_at: string
+          user_agent_family: string | null
+          utm: Json
         }
         Insert: {
+          archived_at?: string | null
+          content_fingerprint?: string | null
           created_at?: string
           email: string
           id?: string
+          idempotency_key?: string | null
+          inquiry_details?: Json
+          inquiry_type?: Database["public"]["Enums"]["contact_inquiry_type"]
+          ip_hash?: string | null
           message: string
           name: string
+          page_locale?: string | null
+          read_at?: string | null
+          referrer?: string | null
+          replied_at?: string | null
+          spam_at?: string | null
+          spam_label?: string | null
+          spam_score?: number | null
+          spam_signals?: Json
+          spam_tokens?: string[]
+          status?: Database["public"]["Enums"]["contact_message_status"]
+          status_changed_at?: string
+          user_agent_family?: string | null
+          utm?: Json
         }
         Update: {
+          archived_at?: string | null
+          content_fingerprint?: string | null
           created_at?: string
           email?: string
           id?: string
+          idempotency_key?: string | null
+          inquiry_details?: Json
+          inquiry_type?: Database["public"]["Enums"]["contact_inquiry_type"]
+          ip_hash?: string | null
           message?: string
           name?: string
+          page_locale?: string | null
+          read_at?: string | null
+          referrer?: string | null
+          replied_at?: string | null
+          spam_at?: string | null
+          spam_label?: string | null
+          spam_score?: number | null
+          spam_signals?: Json
+          spam_tokens?: string[]
+          status?: Database["public"]["Enums"]["contact_message_status"]
+          status_changed_at?: string
+          user_agent_family?: string | null
+          utm?: Json
+        }
+        Relationships: []
+      }
+      contact_rate_limit_hits: {
+        Row: {
+          bucket: string
+          created_at: string
+          id: number
+        }
+        Insert: {
+          bucket: string
+          created_at?: string
+          id?: number
+        }
+        Update: {
+          bucket?: string
+          created_at?: string
+          id?: number
+        }
+        Relationships: []
+      }
+      contact_replies: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          message_id: string
+          provider_message_id: string | null
+          sent_by: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          message_id: string
+          provider_message_id?: string | null
+          sent_by?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          message_id?: string
+          provider_message_id?: string | null
+          sent_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_replies_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "contact_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_spam_attempts: {
+        Row: {
+          created_at: string
+          details: Json
+          email: string | null
+          id: string
+          ip_hash: string | null
+          message: string | null
+          name: string | null
+          reason: string
+        }
+        Insert: {
+          created_at?: string
+          details?: Json
+          email?: string | null
+          id?: string
+          ip_hash?: string | null
+          message?: string | null
+          name?: string | null
+          reason: string
+        }
+        Update: {
+          created_at?: string
+          details?: Json
+          email?: string | null
+          id?: string
+          ip_hash?: string | null
+          message?: string | null
+          name?: string | null
+          reason?: string
+        }
+        Relationships: []
+      }
+      contact_spam_tokens: {
+        Row: {
+          ham_count: number
+          spam_count: number
+          token: string
+        }
+        Insert: {
+          ham_count?: number
+          spam_count?: number
+          token: string
+        }
+        Update: {
+          ham_count?: number
+          spam_count?: number
+          token?: string
+        }
+        Relationships: []
+      }
+      projects: {
+        Row: {
+          case_study: Json | null
+          created_at: string
+          description: string
+          id: number
+          image: string
+          slug: string
+          sort_order: number
+          technologies: string[]
+          title: string
+          updated_at: string
+          url: string | null
+        }
+        Insert: {
+          case_study?: Json | null
+          created_at?: string
+          description: string
+          id?: number
+          image: string
+          slug: string
+          sort_order?: number
+          technologies?: string[]
+          title: string
+          updated_at?: string
+          url?: string | null
+        }
+        Update: {
+          case_study?: Json | null
+          created_at?: string
+          description?: string
+          id?: number
+          image?: string
+          slug?: string
+          sort_order?: number
+          technologies?: string[]
+          title?: string
+          updated_at?: string
+          url?: string | null
+        }
+        Relationships: []
+      }
+      site_owners: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      skill_categories: {
+        Row: {
+          category: string
+          created_at: string
+          id: string
+          items: string[]
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          id?: string
+          items?: string[]
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          id?: string
+          items?: string[]
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      social_links: {
+        Row: {
+          color: string
+          created_at: string
+          icon: string
+          id: string
+          name: string
+          sort_order: number
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          icon: string
+          id?: string
+          name: string
+          sort_order?: number
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          name?: string
+          sort_order?: number
+          updated_at?: string
+          url?: string
         }
         Relationships: []
       }
@@ -43,10 +457,66 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_contact_rate_limit: {
+        Args: { buckets: string[]; max_hits: number[]; window_seconds: number }
+        Returns: number
+      }
+      contact_blocklist_match: {
+        Args: { email: string; ip: string; ip_hash: string }
+        Returns: string
+      }
+      contact_message_transition_allowed: {
+        Args: {
+          from_status: Database["public"]["Enums"]["contact_message_status"]
+          to_status: Database["public"]["Enums"]["contact_message_status"]
+        }
+        Returns: boolean
+      }
+      contact_spam_model: { Args: { tokens: string[] }; Returns: Json }
+      is_site_owner: { Args: never; Returns: boolean }
+      set_contact_message_status: {
+        Args: {
+          message_id: string
+          new_status: Database["public"]["Enums"]["contact_message_status"]
+        }
+        Returns: {
+          archived_at: string | null
+          content_fingerprint: string | null
+          created_at: string
+          email: string
+          id: string
+          idempotency_key: string | null
+          inquiry_details: Json
+          inquiry_type: Database["public"]["Enums"]["contact_inquiry_type"]
+          ip_hash: string | null
+          message: string
+          name: string
+          page_locale: string | null
+          read_at: string | null
+          referrer: string | null
+          replied_at: string | null
+          spam_at: string | null
+          spam_label: string | null
+          spam_score: number | null
+          spam_signals: Json
+          spam_tokens: string[]
+          status: Database["public"]["Enums"]["contact_message_status"]
+          status_changed_at: string
+          user_agent_family: string | null
+          utm: Json
+        }
+      }
     }
     Enums: {
-      [_ in never]: never
+      blocklist_kind: "ip" | "email" | "domain" | "ip_hash"
+      contact_inquiry_type: "job" | "freelance" | "collaboration" | "general"
+      contact_message_status:
+        | "unread"
+        | "read"
+        | "replied"
+        | "archived"
+        | "spam"
+        | "quarantined"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -173,6 +643,17 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      blocklist_kind: ["ip", "email", "domain", "ip_hash"],
+      contact_inquiry_type: ["job", "freelance", "collaboration", "general"],
+      contact_message_status: [
+        "unread",
+        "read",
+        "replied",
+        "archived",
+        "spam",
+        "quarantined",
+      ],
+    },
   },
 } as const
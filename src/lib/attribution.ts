@@ -0,0 +1,31 @@
+import { readUtmParams, sanitizeReferrer, type ContactMetadata } from "@shared/request-metadata";
+
+const ATTRIBUTION_STORAGE_KEY = "portfolio-attribution";
+
+/**
+ * Remembers how this visit started: the external page that linked here and
+ * any UTM parameters on the landing URL. Called once at startup; later page
+ * loads in the same tab keep the first record, so navigating around the site
+ * doesn't lose the channel before the contact form is sent.
+ */
+export function captureAttribution() {
+  try {
+    if (sessionStorage.getItem(ATTRIBUTION_STORAGE_KEY)) return;
+    const external = document.referrer && new URL(document.referrer).origin !== location.origin;
+    const referrer = external ? (sanitizeReferrer(document.referrer) ?? undefined) : undefined;
+    const attribution: ContactMetadata = { referrer, utm: readUtmParams(location.search) };
+    sessionStorage.setItem(ATTRIBUTION_STORAGE_KEY, JSON.stringify(attribution));
+  } catch {
+    // Storage blocked or an odd referrer; the message just goes without it
+  }
+}
+
+/** The visit's referrer and UTM parameters, for submit-contact. */
+export function loadAttribution(): ContactMetadata {
+  try {
+    const stored = sessionStorage.getItem(ATTRIBUTION_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ContactMetadata) : { utm: {} };
+  } catch {
+    return { utm: {} };
+  }
+}
@@ -0,0 +1,77 @@
+import { Constants, type Enums, type Tables } from "@/integrations/supabase/types";
+
+export type BlocklistKind = Enums<"blocklist_kind">;
+
+/** Hashed IPs come from a message's Block sender menu rather than being typed in. */
+export type TypedBlocklistKind = Exclude<BlocklistKind, "ip_hash">;
+
+export const BLOCKLIST_KINDS = Constants.public.Enums.blocklist_kind.filter(
+  (kind): kind is TypedBlocklistKind => kind !== "ip_hash"
+);
+
+export const BLOCKLIST_KIND_LABELS: Record<BlocklistKind, string> = {
+  ip: "IP address or range",
+  email: "Email address",
+  domain: "Email domain",
+  ip_hash: "IP address (hashed)",
+};
+
+export const BLOCKLIST_PLACEHOLDERS: Record<TypedBlocklistKind, string> = {
+  ip: "203.0.113.7 or 203.0.113.0/24",
+  email: "spammer@example.com",
+  domain: "example.com",
+};
+
+export const BLOCKLIST_EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires", days: null },
+  { value: "1", label: "1 day", days: 1 },
+  { value: "7", label: "7 days", days: 7 },
+  { value: "30", label: "30 days", days: 30 },
+  { value: "90", label: "90 days", days: 90 },
+] as const;
+
+export const expiresAtFor = (days: number | null) =>
+  days === null ? null : new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+export const isBlocklistEntryActive = ({ expires_at }: Pick<Tables<"blocklist">, "expires_at">) =>
+  !expires_at || new Date(expires_at).getTime() > Date.now();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DOMAIN_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})(?:\/(\d{1,2}))?$/;
+const IPV6_PATTERN = /^[0-9a-f:.]*:[0-9a-f:.]*(?:\/(\d{1,3}))?$/;
+const IP_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+function isIpOrRange(value: string): boolean {
+  const v4 = IPV4_PATTERN.exec(value);
+  if (v4) {
+    const [, a, b, c, d, prefix] = v4;
+    return [a, b, c, d].every((octet) => Number(octet) <= 255) && (prefix === undefined || Number(prefix) <= 32);
+  }
+  // Loose for IPv6; the database's cidr check has the final say
+  const v6 = IPV6_PATTERN.exec(value);
+  return !!v6 && (v6[1] === undefined || Number(v6[1]) <= 128);
+}
+
+/** Lowercased, trimmed value in the form the blocklist stores it, or null if it isn't valid for the kind. */
+export function normalizeBlocklistValue(kind: BlocklistKind, input: string): string | null {
+  const value = input.trim().toLowerCase();
+  switch (kind) {
+    case "email":
+      return EMAIL_PATTERN.test(value) ? value : null;
+    case "domain": {
+      const domain = value.replace(/^(\*\.|@)/, "");
+      return DOMAIN_PATTERN.test(domain) ? domain : null;
+    }
+    case "ip":
+      return isIpOrRange(value) ? value : null;
+    case "ip_hash":
+      return IP_HASH_PATTERN.test(value) ? value : null;
+  }
+}
+
+/** How an entry's value reads in the admin, e.g. "@example.com" or "IP 3f9a1c2e…". */
+export const blocklistValueLabel = ({ kind, value }: Pick<Tables<"blocklist">, "kind" | "value">) =>
+  kind === "domain" ? `@${value}` : kind === "ip_hash" ? `IP ${value.slice(0, 8)}…` : value;
+
+export const emailDomain = (email: string) => email.split("@")[1]?.toLowerCase() ?? "";
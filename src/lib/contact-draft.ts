@@ -0,0 +1,107 @@
+import type { ContactFormInput } from "@shared/contact-schema";
+import { DEFAULT_INQUIRY_TYPE, INQUIRY_DETAIL_FIELDS, isInquiryType, type InquiryDetails } from "@shared/inquiry";
+
+const DRAFT_STORAGE_KEY = "portfolio-contact-draft";
+
+// Bump when the stored shape changes; older drafts are then ignored.
+const DRAFT_VERSION = 3;
+
+const DEFAULT_DRAFT_TTL_HOURS = 72;
+
+/** How long an unsent draft is kept; set VITE_CONTACT_DRAFT_TTL_HOURS to change it. */
+export const CONTACT_DRAFT_TTL_MS =
+  (Number(import.meta.env.VITE_CONTACT_DRAFT_TTL_HOURS) || DEFAULT_DRAFT_TTL_HOURS) * 60 * 60 * 1000;
+
+/** What gets saved: everything but attachments, which can't be stored. */
+export type ContactDraftValues = Pick<ContactFormInput, "name" | "email" | "message" | "inquiry">;
+
+export type ContactDraft = {
+  savedAt: number;
+  /** Idempotency key sent with this draft, so resubmitting it after a reload can't create a duplicate. */
+  key: string;
+  /** From when the visitor started this draft, so restoring it doesn't restart the fill-time check. */
+  startToken?: string;
+  values: ContactDraftValues;
+};
+
+const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+const hasContent = ({ name, email, message }: Partial<Record<"name" | "email" | "message", unknown>>) =>
+  [name, email, message].some((value) => text(value).trim());
+
+/** Rebuilds the form values from whatever was stored, dropping anything unexpected. */
+function readValues(stored: Record<string, unknown>): ContactDraftValues {
+  const inquiry = (stored.inquiry ?? {}) as Record<string, unknown>;
+  const details = (inquiry.details ?? {}) as Record<string, unknown>;
+  return {
+    name: text(stored.name),
+    email: text(stored.email),
+    message: text(stored.message),
+    inquiry: {
+      type: isInquiryType(inquiry.type) ? inquiry.type : DEFAULT_INQUIRY_TYPE,
+      details: Object.fromEntries(INQUIRY_DETAIL_FIELDS.map((field) => [field, text(details[field])])) as InquiryDetails,
+    },
+  };
+}
+
+/** The saved draft, unless there is none, it's expired or it can't be read. Expired drafts are removed. */
+export function loadContactDraft(ttlMs = CONTACT_DRAFT_TTL_MS): ContactDraft | null {
+  try {
+    const raw = localStorage.getItem(DRAFT_STORAGE_KEY);
+    if (!raw) return null;
+    const stored = JSON.parse(raw);
+    const valid =
+      stored?.version === DRAFT_VERSION &&
+      typeof stored.savedAt === "number" &&
+      typeof stored.key === "string" &&
+      stored.values &&
+      typeof stored.values === "object" &&
+      hasContent(stored.values);
+    if (!valid || Date.now() - stored.savedAt > ttlMs) {
+      localStorage.removeItem(DRAFT_STORAGE_KEY);
+      return null;
+    }
+    return {
+      savedAt: stored.savedAt,
+      key: stored.key,
+      startToken: typeof stored.startToken === "string" ? stored.startToken : undefined,
+      values: readValues(stored.values),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Saves the values, or removes the draft when there's nothing worth keeping. */
+export function saveContactDraft(
+  { name, email, message, inquiry }: ContactDraftValues,
+  key: string,
+  startToken: string | undefined
+) {
+  try {
+    if (!hasContent({ name, email, message })) {
+      localStorage.removeItem(DRAFT_STORAGE_KEY);
+      return;
+    }
+    localStorage.setItem(
+      DRAFT_STORAGE_KEY,
+      JSON.stringify({
+        version: DRAFT_VERSION,
+        savedAt: Date.now(),
+        key,
+        startToken,
+        values: { name, email, message, inquiry },
+      })
+    );
+  } catch {
+    // Storage full or unavailable (private mode); autosave is best effort.
+  }
+}
+
+export function clearContactDraft() {
+  try {
+    localStorage.removeItem(DRAFT_STORAGE_KEY);
+  } catch {
+    // Nothing to clear.
+  }
+}
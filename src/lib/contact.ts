@@ -0,0 +1,113 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Locale } from "@/i18n/config";
+import { loadAttribution } from "@/lib/attribution";
+import { ATTACHMENT_BUCKET, type AttachmentMeta, type AttachmentUpload } from "@shared/attachments";
+import type { ContactFieldErrors, ContactGuard, ContactSubmission } from "@shared/contact-schema";
+
+type ContactErrorBody = {
+  error?: string;
+  fieldErrors?: ContactFieldErrors;
+  retryAfter?: number;
+};
+
+export class ContactSubmitError extends Error {
+  constructor(
+    message: string,
+    public readonly fieldErrors: ContactFieldErrors = {},
+    /** Seconds until the visitor may submit again (429 responses only). */
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = "ContactSubmitError";
+  }
+}
+
+/** Reads the JSON error body of a non-2xx function response, if there is one. */
+async function readErrorBody(error: unknown): Promise<ContactErrorBody> {
+  if (!(error instanceof FunctionsHttpError)) return {};
+  const response = error.context as Response;
+  let body: ContactErrorBody = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Not JSON; fall back to the generic message.
+  }
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  return Number.isFinite(retryAfter) && retryAfter > 0 ? { ...body, retryAfter } : body;
+}
+
+/** What the form sends about a picked file (see @shared/attachments). */
+export const toAttachmentMeta = (file: File): AttachmentMeta => ({
+  name: file.name,
+  type: file.type as AttachmentMeta["type"],
+  size: file.size,
+});
+
+/** Uploads each file to its signed URL; resolves with how many didn't make it. */
+async function uploadAttachments(files: File[], uploads: (AttachmentUpload | null)[] = []): Promise<number> {
+  const results = await Promise.all(
+    files.map(async (file, i) => {
+      const upload = uploads[i];
+      if (!upload) return false;
+      if ("uploaded" in upload) return true;
+      const { error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .uploadToSignedUrl(upload.path, upload.token, file, { contentType: file.type });
+      if (error) console.error("Attachment upload failed:", error.message);
+      return !error;
+    })
+  );
+  return results.filter((uploaded) => !uploaded).length;
+}
+
+/** Asks submit-contact for a start token; the form's fill time is measured from this moment. */
+export async function fetchStartToken(): Promise<string> {
+  const { data, error } = await supabase.functions.invoke("submit-contact", { method: "GET" });
+  if (error) throw error;
+  if (typeof data?.startToken !== "string") throw new Error("No start token in the response");
+  return data.startToken;
+}
+
+type SubmitContactOptions = {
+  locale: Locale;
+  /** The picked files, in the same order as `values.attachments`. */
+  files?: File[];
+  /** Same key for every attempt at sending one draft; the function returns the original result for repeats. */
+  idempotencyKey: string;
+};
+
+/**
+ * Sends a validated message to the submit-contact function, uploads its
+ * attachments and resolves with the reference ID and how many files failed to
+ * upload; the message itself is saved either way. Rejections the server
+ * explains (validation, rate limiting...) become a ContactSubmitError carrying
+ * its localized message and any per-field errors.
+ */
+export async function submitContact(
+  values: ContactSubmission,
+  guard: ContactGuard,
+  { locale, files = [], idempotencyKey }: SubmitContactOptions
+): Promise<{ reference?: string; failedUploads: number }> {
+  const { data, error } = await supabase.functions.invoke("submit-contact", {
+    body: { ...values, ...guard, metadata: loadAttribution() },
+    headers: {
+      // The function answers in the same language as the page
+      "Accept-Language": locale,
+      "Idempotency-Key": idempotencyKey,
+    },
+  });
+
+  if (error) {
+    const body = await readErrorBody(error);
+    throw new ContactSubmitError(body.error ?? error.message, body.fieldErrors, body.retryAfter);
+  }
+
+  // Check for application-level errors from the edge function
+  if (data?.error) {
+    throw new ContactSubmitError(data.error, data.fieldErrors);
+  }
+
+  const failedUploads = await uploadAttachments(files, data?.uploads);
+  return { reference: data?.reference, failedUploads };
+}
@@ -0,0 +1,44 @@
+import { Constants, type Enums } from "@/integrations/supabase/types";
+
+export type MessageStatus = Enums<"contact_message_status">;
+
+export const MESSAGE_STATUSES = Constants.public.Enums.contact_message_status;
+
+export const MESSAGE_STATUS_LABELS: Record<MessageStatus, string> = {
+  unread: "Unread",
+  read: "Read",
+  replied: "Replied",
+  archived: "Archived",
+  spam: "Spam",
+  quarantined: "Quarantined",
+};
+
+// Mirrors public.contact_message_transition_allowed(); the database trigger is authoritative.
+export const MESSAGE_STATUS_TRANSITIONS: Record<MessageStatus, readonly MessageStatus[]> = {
+  unread: ["read", "replied", "archived", "spam"],
+  read: ["unread", "replied", "archived", "spam"],
+  replied: ["archived", "spam"],
+  archived: ["unread", "read"],
+  spam: ["unread", "read"],
+  // Only submit-contact puts messages here (high spam score)
+  quarantined: ["unread", "read", "spam"],
+};
+
+export const canTransition = (from: MessageStatus, to: MessageStatus) =>
+  MESSAGE_STATUS_TRANSITIONS[from].includes(to);
+
+/** Inbox filters shown in the admin sidebar; each maps to a set of statuses. */
+export const MESSAGE_VIEWS = {
+  inbox: { label: "Inbox", statuses: ["unread", "read", "replied"] },
+  unread: { label: "Unread", statuses: ["unread"] },
+  replied: { label: "Replied", statuses: ["replied"] },
+  archived: { label: "Archived", statuses: ["archived"] },
+  quarantine: { label: "Quarantine", statuses: ["quarantined"] },
+  spam: { label: "Spam", statuses: ["spam"] },
+  all: { label: "All messages", statuses: [...MESSAGE_STATUSES] },
+} as const satisfies Record<string, { label: string; statuses: readonly MessageStatus[] }>;
+
+export type MessageView = keyof typeof MESSAGE_VIEWS;
+
+export const isMessageView = (value: string | null): value is MessageView =>
+  value !== null && value in MESSAGE_VIEWS;
@@ -0,0 +1,16 @@
+/**
+ * Page sections in document order. Navigation, the scroll spy and hash
+ * deep links (e.g. /#skills) all read from this list, so adding a section
+ * here (plus its label under nav.sections in src/i18n/messages) is enough
+ * for it to be highlighted and linkable.
+ */
+export const SECTION_IDS = ["home", "about", "skills", "projects", "contact"] as const;
+
+export type SectionId = (typeof SECTION_IDS)[number];
+
+export const isSectionId = (value: string): value is SectionId =>
+  (SECTION_IDS as readonly string[]).includes(value);
+
+export function scrollToSection(sectionId: string, behavior: ScrollBehavior = "smooth") {
+  document.getElementById(sectionId)?.scrollIntoView({ behavior, block: "start" });
+}
@@ -2,6 +2,7 @@ import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 import { ErrorBoundary } from "./components/ErrorBoundary";
+import { captureAttribution } from "./lib/attribution";
 
 // Log unhandled runtime errors so we can diagnose "blank screen" issues.
 window.addEventListener("error", (event) => {
@@ -12,6 +13,9 @@ window.addEventListener("unhandledrejection", (event) => {
   console.error("Unhandled promise rejection:", event.reason);
 });
 
+// Before the router can rewrite the landing URL
+captureAttribution();
+
 createRoot(document.getElementById("root")!).render(
   <ErrorBoundary>
     <App />
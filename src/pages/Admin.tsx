@@ -0,0 +1,60 @@
+import { Outlet } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import AdminLogin from "@/components/admin/AdminLogin";
+import AdminSidebar from "@/components/admin/AdminSidebar";
+import { useIsSiteOwner } from "@/hooks/use-contact-messages";
+import { useSession } from "@/hooks/use-session";
+import { supabase } from "@/integrations/supabase/client";
+
+const FullScreenMessage = ({ children }: { children: React.ReactNode }) => (
+  <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-6">
+    <div className="max-w-md text-center space-y-3">{children}</div>
+  </div>
+);
+
+const Admin = () => {
+  const { session, isLoading } = useSession();
+  const { data: isOwner, isLoading: isCheckingOwner } = useIsSiteOwner(session?.user.id);
+
+  if (isLoading || (session && isCheckingOwner)) {
+    return (
+      <FullScreenMessage>
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      </FullScreenMessage>
+    );
+  }
+
+  if (!session) {
+    return <AdminLogin />;
+  }
+
+  if (!isOwner) {
+    return (
+      <FullScreenMessage>
+        <h1 className="text-2xl font-semibold">Access denied</h1>
+        <p className="text-sm text-muted-foreground">
+          {session.user.email} is not registered as the site owner.
+        </p>
+        <Button variant="outline" onClick={() => supabase.auth.signOut()}>
+          Sign out
+        </Button>
+      </FullScreenMessage>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <AdminSidebar email={session.user.email} />
+      <SidebarInset>
+        <header className="flex h-14 items-center gap-2 border-b border-border/50 px-4">
+          <SidebarTrigger />
+          <h1 className="font-semibold">Inbox</h1>
+        </header>
+        <Outlet />
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default Admin;
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAddBlocklistEntry, useBlocklist, useRemoveBlocklistEntry } from "@/hooks/use-contact-messages";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BLOCKLIST_EXPIRY_OPTIONS,
+  BLOCKLIST_KINDS,
+  BLOCKLIST_KIND_LABELS,
+  BLOCKLIST_PLACEHOLDERS,
+  blocklistValueLabel,
+  expiresAtFor,
+  isBlocklistEntryActive,
+  normalizeBlocklistValue,
+  type TypedBlocklistKind,
+} from "@/lib/blocklist";
+import { cn } from "@/lib/utils";
+
+type ExpiryOption = (typeof BLOCKLIST_EXPIRY_OPTIONS)[number]["value"];
+
+/** Senders turned away by submit-contact: IPs and ranges, addresses and domains. */
+const AdminBlocklist = () => {
+  const { data: entries, isLoading } = useBlocklist();
+  const { mutate: addEntry, isPending: isAdding } = useAddBlocklistEntry();
+  const { mutate: removeEntry, isPending: isRemoving } = useRemoveBlocklistEntry();
+  const { toast } = useToast();
+
+  const [kind, setKind] = useState<TypedBlocklistKind>("email");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+  const [expiry, setExpiry] = useState<ExpiryOption>("never");
+  const [valueError, setValueError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeBlocklistValue(kind, value);
+    if (!normalized) {
+      setValueError(`Enter a valid ${BLOCKLIST_KIND_LABELS[kind].toLowerCase()}.`);
+      return;
+    }
+    const { days } = BLOCKLIST_EXPIRY_OPTIONS.find((option) => option.value === expiry)!;
+
+    addEntry(
+      { kind, value: normalized, reason: reason.trim() || null, expires_at: expiresAtFor(days) },
+      {
+        onSuccess: () => {
+          setValue("");
+          setReason("");
+          toast({ title: "Added to the blocklist", description: normalized });
+        },
+        onError: (error) => {
+          toast({ title: "Could not add entry", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const remove = (id: string) => {
+    removeEntry(id, {
+      onError: (error) => {
+        toast({ title: "Could not remove entry", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <div className="flex-1 p-4 md:p-6 overflow-y-auto">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Blocklist</h1>
+          <p className="text-sm text-muted-foreground">
+            Messages from these senders are turned away with a normal-looking confirmation and logged under
+            Blocked attempts. Domains include their subdomains; hashed IPs are added from a message's Block
+            sender menu.
+          </p>
+        </div>
+
+        <Card className="bg-card-gradient border-border/50 shadow-subtle-glow">
+          <CardContent className="p-4">
+            <form onSubmit={handleSubmit} className="grid gap-3 sm:grid-cols-[10rem_1fr]" noValidate>
+              <Select value={kind} onValueChange={(next) => setKind(next as TypedBlocklistKind)}>
+                <SelectTrigger aria-label="Entry type" className="bg-secondary border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BLOCKLIST_KINDS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {BLOCKLIST_KIND_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="space-y-1">
+                <Input
+                  value={value}
+                  onChange={(e) => {
+                    setValue(e.target.value);
+                    setValueError(null);
+                  }}
+                  placeholder={BLOCKLIST_PLACEHOLDERS[kind]}
+                  aria-label={BLOCKLIST_KIND_LABELS[kind]}
+                  aria-invalid={!!valueError}
+                  className="bg-secondary border-border/50 font-mono"
+                />
+                {valueError && <p className="text-sm font-medium text-destructive">{valueError}</p>}
+              </div>
+              <Select value={expiry} onValueChange={(next) => setExpiry(next as ExpiryOption)}>
+                <SelectTrigger aria-label="Expires" className="bg-secondary border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BLOCKLIST_EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex gap-2">
+                <Input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Reason (optional)"
+                  aria-label="Reason"
+                  className="bg-secondary border-border/50"
+                />
+                <Button type="submit" disabled={isAdding || !value.trim()}>
+                  <Plus className="w-4 h-4" />
+                  Block
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-20 w-full" />)
+        ) : !entries?.length ? (
+          <p className="text-sm text-muted-foreground text-center mt-12">Nobody is blocked.</p>
+        ) : (
+          entries.map((entry) => {
+            const active = isBlocklistEntryActive(entry);
+            return (
+              <Card key={entry.id} className={cn("bg-card-gradient border-border/50", !active && "opacity-60")}>
+                <CardContent className="p-4 flex flex-wrap items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{BLOCKLIST_KIND_LABELS[entry.kind]}</Badge>
+                      <span className="font-mono text-sm text-foreground break-all">{blocklistValueLabel(entry)}</span>
+                    </div>
+                    {entry.reason && <p className="text-sm text-muted-foreground">{entry.reason}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      Added {format(new Date(entry.created_at), "PP")}
+                      {" · "}
+                      {!entry.expires_at
+                        ? "never expires"
+                        : active
+                          ? `expires ${formatDistanceToNow(new Date(entry.expires_at), { addSuffix: true })}`
+                          : `expired ${format(new Date(entry.expires_at), "PP")}`}
+                      {entry.source_message_id && (
+                        <>
+                          {" · "}
+                          <Link to={`/admin/messages/${entry.source_message_id}`} className="text-primary hover:underline">
+                            view message
+                          </Link>
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isRemoving}
+                    onClick={() => remove(entry.id)}
+                    aria-label={`Unblock ${blocklistValueLabel(entry)}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Unblock
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminBlocklist;
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import MessageDetail from "@/components/admin/MessageDetail";
+import MessageList from "@/components/admin/MessageList";
+import {
+  useContactMessage,
+  useContactMessages,
+  useMessageReplies,
+  useSetMessageStatus,
+} from "@/hooks/use-contact-messages";
+import { useToast } from "@/hooks/use-toast";
+import { isMessageView, type MessageStatus } from "@/lib/message-status";
+import { cn } from "@/lib/utils";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const AdminInbox = () => {
+  const { messageId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get("q") ?? "";
+  const viewParam = searchParams.get("view");
+  const view = isMessageView(viewParam) ? viewParam : "inbox";
+  const [searchInput, setSearchInput] = useState(search);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchInput.trim() === search) return;
+      setSearchParams(
+        (params) => {
+          if (searchInput.trim()) params.set("q", searchInput.trim());
+          else params.delete("q");
+          return params;
+        },
+        { replace: true }
+      );
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, search, setSearchParams]);
+
+  const { data: messages, isLoading } = useContactMessages(search, view);
+  const { data: message, isLoading: isLoadingMessage } = useContactMessage(messageId);
+  const { data: replies } = useMessageReplies(messageId);
+  const { mutate: setStatus, isPending: isUpdating } = useSetMessageStatus();
+
+  const changeStatus = (status: MessageStatus) => {
+    if (!message) return;
+    setStatus(
+      { id: message.id, status },
+      {
+        onError: (error) => {
+          toast({
+            title: "Could not update message",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  // Opening an unread message marks it as read.
+  useEffect(() => {
+    if (message?.status === "unread") {
+      setStatus({ id: message.id, status: "read" });
+    }
+  }, [message?.id, message?.status, setStatus]);
+
+  return (
+    <div className="flex flex-1 min-h-0 flex-col md:flex-row">
+      <section
+        className={cn(
+          "md:w-96 md:shrink-0 md:border-r border-border/50 flex flex-col",
+          messageId && "hidden md:flex"
+        )}
+      >
+        <div className="p-3 border-b border-border/50">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Search name, email or message"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="pl-9 bg-secondary border-border/50"
+              aria-label="Search messages"
+            />
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          <MessageList messages={messages} isLoading={isLoading} selectedId={messageId} search={search} />
+        </div>
+      </section>
+
+      <section className={cn("flex-1 p-4 md:p-6 overflow-y-auto", !messageId && "hidden md:block")}>
+        {messageId ? (
+          <MessageDetail
+            message={message}
+            replies={replies}
+            isLoading={isLoadingMessage}
+            isUpdating={isUpdating}
+            onStatusChange={changeStatus}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground text-center mt-12">Select a message to read it.</p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default AdminInbox;
@@ -0,0 +1,69 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useSpamAttempts } from "@/hooks/use-contact-messages";
+import type { SpamCheckReason } from "@shared/contact-schema";
+
+const reasonLabels: Record<SpamCheckReason, string> = {
+  honeypot: "Honeypot filled",
+  too_fast: "Submitted too fast",
+  invalid_proof: "Invalid proof of work",
+  blocked: "Blocklisted sender",
+};
+
+/** Review list for submissions the contact form's spam checks rejected. */
+const AdminSpamAttempts = () => {
+  const { data: attempts, isLoading } = useSpamAttempts();
+
+  return (
+    <div className="flex-1 p-4 md:p-6 overflow-y-auto">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Blocked attempts</h1>
+          <p className="text-sm text-muted-foreground">
+            Submissions rejected by the honeypot, fill-time or proof-of-work checks, or sent from an
+            address on the blocklist. Nothing here was delivered to the inbox.
+          </p>
+        </div>
+
+        {isLoading ? (
+          Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-28 w-full" />)
+        ) : !attempts?.length ? (
+          <p className="text-sm text-muted-foreground text-center mt-12">No blocked attempts.</p>
+        ) : (
+          attempts.map((attempt) => (
+            <Card key={attempt.id} className="bg-card-gradient border-border/50">
+              <CardContent className="p-4 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-medium text-foreground truncate">{attempt.name || "(no name)"}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {attempt.email || "(no email)"}
+                      {attempt.ip_hash && (
+                        <span title="Keyed hash of the sender's IP address"> · IP {attempt.ip_hash.slice(0, 8)}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant="outline" className="border-destructive/40 text-destructive">
+                      {reasonLabels[attempt.reason as SpamCheckReason] ?? attempt.reason}
+                    </Badge>
+                    <time dateTime={attempt.created_at} className="text-xs text-muted-foreground">
+                      {format(new Date(attempt.created_at), "PPpp")}
+                    </time>
+                  </div>
+                </div>
+                {attempt.message && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4">{attempt.message}</p>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminSpamAttempts;
@@ -0,0 +1,82 @@
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { emailPreviews } from "@shared/email/samples";
+
+const templateIds = Object.keys(emailPreviews);
+
+/**
+ * Dev-only preview of every email template (/dev/emails), rendered with the
+ * same code the edge functions use. Not routed in production builds.
+ */
+const EmailPreview = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const templateParam = searchParams.get("template");
+  const templateId = templateParam && templateParam in emailPreviews ? templateParam : templateIds[0];
+  const preview = emailPreviews[templateId];
+  const sampleIndex = Math.min(Number(searchParams.get("sample")) || 0, preview.samples.length - 1);
+  const email = useMemo(() => preview.samples[sampleIndex].render(), [preview, sampleIndex]);
+
+  const select = (template: string, sample = 0) =>
+    setSearchParams({ template, sample: String(sample) }, { replace: true });
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Email templates</h1>
+          <p className="text-muted-foreground">{preview.description}</p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {templateIds.map((id) => (
+            <Button key={id} size="sm" variant={id === templateId ? "default" : "outline"} onClick={() => select(id)}>
+              {id}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {preview.samples.map((sample, index) => (
+            <Button
+              key={sample.label}
+              size="sm"
+              variant={index === sampleIndex ? "secondary" : "ghost"}
+              onClick={() => select(templateId, index)}
+            >
+              {sample.label}
+            </Button>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base font-medium">
+              <span className="text-muted-foreground">Subject:</span> {email.subject}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-6 lg:grid-cols-2">
+            <section className="space-y-2">
+              <h2 className="text-sm font-semibold text-muted-foreground">HTML</h2>
+              {/* Sandboxed so a template bug can't run script in the app */}
+              <iframe
+                title="HTML body"
+                sandbox=""
+                srcDoc={email.html}
+                className="w-full h-[32rem] rounded-md border border-border bg-white"
+              />
+            </section>
+            <section className="space-y-2">
+              <h2 className="text-sm font-semibold text-muted-foreground">Plain text</h2>
+              <pre className="h-[32rem] overflow-auto rounded-md border border-border bg-secondary p-4 text-sm whitespace-pre-wrap">
+                {email.text}
+              </pre>
+            </section>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default EmailPreview;
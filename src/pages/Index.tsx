@@ -1,11 +1,31 @@
+import { useEffect } from "react";
+import { useLocation } from "react-router-dom";
 import Navigation from "../components/Navigation";
 import HeroSection from "../components/HeroSection";
 import AboutSection from "../components/AboutSection";
 import SkillsSection from "../components/SkillsSection";
 import ProjectsSection from "../components/ProjectsSection";
 import ContactSection from "../components/ContactSection";
+import { useProfile } from "@/hooks/use-portfolio-content";
+import { useI18n } from "@/i18n/context";
+import { isSectionId, scrollToSection } from "@/lib/sections";
 
 const Index = () => {
+  const { hash } = useLocation();
+  const { t } = useI18n();
+  const profile = useProfile();
+
+  // Restore the position when arriving from a deep link such as /#skills or /#project-deep-focus
+  useEffect(() => {
+    if (!hash) return;
+    const id = decodeURIComponent(hash.slice(1));
+    if (isSectionId(id)) {
+      scrollToSection(id, "instant");
+    } else {
+      document.getElementById(id)?.scrollIntoView({ behavior: "instant", block: "center" });
+    }
+  }, [hash]);
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       <Navigation />
@@ -19,7 +39,7 @@ const Index = () => {
       <footer className="py-8 bg-secondary/50 border-t border-border/50">
         <div className="container mx-auto px-6 text-center">
           <p className="text-muted-foreground">
-            © 2025 Fatur Rahman. Built with React & Tailwind CSS.
+            {t.footer.copyright(2025, profile.name)}
           </p>
         </div>
       </footer>
@@ -1,8 +1,10 @@
 import { useLocation } from "react-router-dom";
 import { useEffect } from "react";
+import { useI18n } from "@/i18n/context";
 
 const NotFound = () => {
   const location = useLocation();
+  const { t, path } = useI18n();
 
   useEffect(() => {
     console.error(
@@ -12,12 +14,12 @@ const NotFound = () => {
   }, [location.pathname]);
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+    <div className="min-h-screen flex items-center justify-center bg-background text-foreground">
       <div className="text-center">
         <h1 className="text-4xl font-bold mb-4">404</h1>
-        <p className="text-xl text-gray-600 mb-4">Oops! Page not found</p>
-        <a href="/" className="text-blue-500 hover:text-blue-700 underline">
-          Return to Home
+        <p className="text-xl text-muted-foreground mb-4">{t.notFound.message}</p>
+        <a href={path()} className="text-primary hover:text-primary/80 underline">
+          {t.notFound.home}
         </a>
       </div>
     </div>
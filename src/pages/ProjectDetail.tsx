@@ -0,0 +1,136 @@
+import { useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { projectSlug, resolveImage } from "@/content";
+import { useProjects } from "@/hooks/use-portfolio-content";
+import { useI18n } from "@/i18n/context";
+import NotFound from "./NotFound";
+
+const ProjectDetail = () => {
+  const { slug } = useParams();
+  const { t, path } = useI18n();
+  const projects = useProjects();
+  const project = projects.find((p) => projectSlug(p) === slug);
+
+  useEffect(() => {
+    window.scrollTo({ top: 0 });
+  }, [slug]);
+
+  if (!project) {
+    return <NotFound />;
+  }
+
+  const backHref = `${path()}#project-${projectSlug(project)}`;
+  const caseStudy = project.caseStudy;
+  const gallery = caseStudy?.gallery.length ? caseStudy.gallery : [project.image];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 z-50 bg-background/95 backdrop-blur-md border-b border-border">
+        <div className="container mx-auto px-6 py-4">
+          <Button asChild variant="ghost" className="text-muted-foreground hover:text-foreground">
+            <Link to={backHref}>
+              <ArrowLeft className="w-4 h-4" />
+              {t.projectDetail.back}
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-12 max-w-4xl">
+        <article className="space-y-12 animate-fade-in-up">
+          <div className="space-y-6">
+            <h1 className="text-4xl md:text-5xl font-bold bg-hero-gradient bg-clip-text text-transparent">
+              {project.title}
+            </h1>
+            <p className="text-xl text-muted-foreground leading-relaxed">{project.description}</p>
+            {project.url && (
+              <Button asChild className="bg-primary hover:bg-primary/90 text-primary-foreground shadow-glow">
+                <a href={project.url} target="_blank" rel="noopener noreferrer">
+                  {t.projectDetail.visit}
+                  <ExternalLink className="w-4 h-4" />
+                </a>
+              </Button>
+            )}
+          </div>
+
+          <div className="relative overflow-hidden rounded-2xl shadow-subtle-glow">
+            <img src={resolveImage(project.image)} alt={project.title} className="w-full max-h-[28rem] object-cover" />
+          </div>
+
+          {caseStudy && (
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card className="bg-card-gradient border-border/50 shadow-subtle-glow">
+                <CardContent className="p-6">
+                  <h2 className="text-xl font-semibold mb-3 text-primary">{t.projectDetail.problem}</h2>
+                  <p className="text-muted-foreground leading-relaxed">{caseStudy.problem}</p>
+                </CardContent>
+              </Card>
+              <Card className="bg-card-gradient border-border/50 shadow-subtle-glow">
+                <CardContent className="p-6">
+                  <h2 className="text-xl font-semibold mb-3 text-primary">{t.projectDetail.role}</h2>
+                  <p className="text-muted-foreground leading-relaxed">{caseStudy.role}</p>
+                </CardContent>
+              </Card>
+              <Card className="bg-card-gradient border-border/50 shadow-subtle-glow">
+                <CardContent className="p-6">
+                  <h2 className="text-xl font-semibold mb-3 text-primary">{t.projectDetail.approach}</h2>
+                  <ul className="list-disc pl-5 space-y-2 text-muted-foreground leading-relaxed">
+                    {caseStudy.approach.map((step) => (
+                      <li key={step}>{step}</li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+              <Card className="bg-card-gradient border-border/50 shadow-subtle-glow">
+                <CardContent className="p-6">
+                  <h2 className="text-xl font-semibold mb-3 text-primary">{t.projectDetail.outcomes}</h2>
+                  <ul className="list-disc pl-5 space-y-2 text-muted-foreground leading-relaxed">
+                    {caseStudy.outcomes.map((outcome) => (
+                      <li key={outcome}>{outcome}</li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {gallery.length > 1 && (
+            <section>
+              <h2 className="text-2xl font-semibold mb-4 text-foreground">{t.projectDetail.gallery}</h2>
+              <div className="grid gap-4 sm:grid-cols-2">
+                {gallery.map((image, index) => (
+                  <img
+                    key={image}
+                    src={resolveImage(image)}
+                    alt={t.projectDetail.screenshotAlt(project.title, index + 1)}
+                    loading="lazy"
+                    className="w-full h-56 object-cover rounded-lg border border-border/50"
+                  />
+                ))}
+              </div>
+            </section>
+          )}
+
+          <section>
+            <h2 className="text-2xl font-semibold mb-4 text-foreground">{t.projectDetail.techStack}</h2>
+            <div className="flex flex-wrap gap-2">
+              {project.technologies.map((tech) => (
+                <span
+                  key={tech}
+                  className="px-3 py-1 bg-secondary text-secondary-foreground rounded-full text-sm font-medium"
+                >
+                  {tech}
+                </span>
+              ))}
+            </div>
+          </section>
+        </article>
+      </main>
+    </div>
+  );
+};
+
+export default ProjectDetail;
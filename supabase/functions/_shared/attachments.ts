@@ -0,0 +1,65 @@
+// Limits for files attached to a contact message. The form checks them before
+// uploading, submit-contact checks them again before issuing upload URLs, and
+// the contact-attachments bucket enforces the same size and types (see its
+// migration). Keep this module free of Deno and DOM globals.
+import { z } from "zod";
+import type { ContactSchemaMessages } from "./contact-schema.ts";
+
+export const ATTACHMENT_BUCKET = "contact-attachments";
+
+export const MAX_ATTACHMENTS = 3;
+
+/** Per file; matches the bucket's file_size_limit. */
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+export const ATTACHMENT_NAME_MAX_LENGTH = 200;
+
+/** Accepted MIME types and the extensions offered by the file picker. */
+export const ATTACHMENT_TYPES = {
+  "application/pdf": [".pdf"],
+  "application/msword": [".doc"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+  "text/plain": [".txt"],
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg"],
+} as const;
+
+export type AttachmentType = keyof typeof ATTACHMENT_TYPES;
+
+export const isAttachmentType = (type: string): type is AttachmentType =>
+  Object.prototype.hasOwnProperty.call(ATTACHMENT_TYPES, type);
+
+/** For the file input's accept attribute. */
+export const ATTACHMENT_ACCEPT = [...Object.keys(ATTACHMENT_TYPES), ...Object.values(ATTACHMENT_TYPES).flat()].join(",");
+
+/** 1536 -> "1.5 KB" */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** What the form sends about each file; the bytes themselves go straight to storage. */
+export const createAttachmentSchema = (t: ContactSchemaMessages) =>
+  z.object({
+    name: z.string().trim().min(1, t.attachmentInvalid).max(ATTACHMENT_NAME_MAX_LENGTH, t.attachmentInvalid),
+    type: z.string().refine(isAttachmentType, t.attachmentType),
+    size: z.number().int().positive(t.attachmentInvalid).max(MAX_ATTACHMENT_BYTES, t.attachmentTooLarge),
+  });
+
+export const createAttachmentsSchema = (t: ContactSchemaMessages) =>
+  z
+    .array(createAttachmentSchema(t), { invalid_type_error: t.attachmentInvalid })
+    .max(MAX_ATTACHMENTS, t.tooManyAttachments)
+    .default([]);
+
+export type AttachmentMeta = z.output<ReturnType<typeof createAttachmentSchema>>;
+
+/**
+ * A signed upload URL issued by submit-contact, as accepted by storage
+ * uploadToSignedUrl(), or `uploaded` when a retried request's file already arrived.
+ */
+export type AttachmentUpload = { path: string; token: string } | { path: string; uploaded: true };
+
+/** Where a file is stored in the bucket: one folder per message, named by attachment ID. */
+export const attachmentPath = (messageId: string, attachmentId: string) => `${messageId}/${attachmentId}`;
@@ -0,0 +1,71 @@
+// Contact form strings shared by the submit-contact edge function and the
+// React ContactSection, so server and client errors read the same in each language.
+
+export const CONTACT_LOCALES = ["en", "id"] as const;
+
+export type ContactLocale = (typeof CONTACT_LOCALES)[number];
+
+export const contactMessages = {
+  en: {
+    nameRequired: "Name is required",
+    nameTooShort: "Name must be at least 2 characters",
+    nameTooLong: "Name must be less than 100 characters",
+    emailRequired: "Email is required",
+    emailTooLong: "Email must be less than 255 characters",
+    emailInvalid: "Please enter a valid email address",
+    emailDisposable: "Please use a permanent email address so I can reply",
+    messageRequired: "Message is required",
+    messageTooShort: "Message must be at least 10 characters",
+    messageTooLong: "Message must be less than 5000 characters",
+    inquiryTypeInvalid: "Please choose what your message is about",
+    inquiryDetailRequired: "This field is required",
+    inquiryDetailTooLong: "Must be less than 200 characters",
+    linkInvalid: "Please enter a link starting with http:// or https://",
+    attachmentInvalid: "This file can't be attached",
+    attachmentType: "Only PDF, Word, text, PNG and JPEG files can be attached",
+    attachmentTooLarge: "Each file must be 5 MB or smaller",
+    tooManyAttachments: "You can attach up to 3 files",
+    methodNotAllowed: "Method not allowed",
+    rateLimited: "Too many submissions. Please try again later.",
+    verificationFailed: "We couldn't verify your message. Please wait a moment and try again.",
+    submitFailed: "Failed to submit message. Please try again.",
+    unexpected: "An unexpected error occurred. Please try again.",
+    success: "Message sent successfully",
+  },
+  id: {
+    nameRequired: "Nama wajib diisi",
+    nameTooShort: "Nama minimal 2 karakter",
+    nameTooLong: "Nama harus kurang dari 100 karakter",
+    emailRequired: "Email wajib diisi",
+    emailTooLong: "Email harus kurang dari 255 karakter",
+    emailInvalid: "Masukkan alamat email yang valid",
+    emailDisposable: "Gunakan alamat email permanen agar saya dapat membalas",
+    messageRequired: "Pesan wajib diisi",
+    messageTooShort: "Pesan minimal 10 karakter",
+    messageTooLong: "Pesan harus kurang dari 5000 karakter",
+    inquiryTypeInvalid: "Pilih topik pesan Anda",
+    inquiryDetailRequired: "Kolom ini wajib diisi",
+    inquiryDetailTooLong: "Harus kurang dari 200 karakter",
+    linkInvalid: "Masukkan tautan yang diawali http:// atau https://",
+    attachmentInvalid: "File ini tidak dapat dilampirkan",
+    attachmentType: "Hanya file PDF, Word, teks, PNG, dan JPEG yang dapat dilampirkan",
+    attachmentTooLarge: "Ukuran setiap file maksimal 5 MB",
+    tooManyAttachments: "Anda dapat melampirkan hingga 3 file",
+    methodNotAllowed: "Metode tidak diizinkan",
+    rateLimited: "Terlalu banyak pengiriman. Silakan coba lagi nanti.",
+    verificationFailed: "Kami tidak dapat memverifikasi pesan Anda. Mohon tunggu sebentar lalu coba lagi.",
+    submitFailed: "Gagal mengirim pesan. Silakan coba lagi.",
+    unexpected: "Terjadi kesalahan tak terduga. Silakan coba lagi.",
+    success: "Pesan berhasil dikirim",
+  },
+} satisfies Record<ContactLocale, Record<string, string>>;
+
+export type ContactMessageKey = keyof (typeof contactMessages)["en"];
+
+/** Picks the first supported language from an Accept-Language header, defaulting to English. */
+export function resolveContactLocale(acceptLanguage: string | null | undefined): ContactLocale {
+  const requested = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => part.split(";")[0].trim().slice(0, 2).toLowerCase());
+  return (requested.find((lang) => (CONTACT_LOCALES as readonly string[]).includes(lang)) as ContactLocale) ?? "en";
+}
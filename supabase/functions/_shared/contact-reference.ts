@@ -0,0 +1,6 @@
+/**
+ * Short, human-friendly reference for a contact message, quoted in the
+ * acknowledgement email and shown in the admin inbox. Derived from the row id
+ * so it never has to be stored, e.g. "MSG-3F2A9C1B".
+ */
+export const contactReference = (messageId: string) => `MSG-${messageId.replace(/-/g, "").slice(0, 8).toUpperCase()}`;
@@ -0,0 +1,151 @@
+// Validation rules for the contact form. Imported by the submit-contact edge
+// function and by the React ContactSection (through the @shared alias), so the
+// two can no longer drift. Keep this module free of Deno and DOM globals.
+import { z } from "zod";
+import { createAttachmentsSchema } from "./attachments.ts";
+import { contactMessages, type ContactMessageKey } from "./contact-i18n.ts";
+import { isDisposableEmail } from "./email-domains.ts";
+import {
+  DEFAULT_INQUIRY_TYPE,
+  INQUIRY_DETAIL_MAX_LENGTH,
+  INQUIRY_FIELDS,
+  INQUIRY_TYPES,
+  type InquiryDetailField,
+  type InquiryDetails,
+} from "./inquiry.ts";
+
+export const CONTACT_LIMITS = {
+  name: { min: 2, max: 100 },
+  email: { max: 255 },
+  message: { min: 10, max: 5000 },
+} as const;
+
+const EMAIL_PATTERN = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
+
+// Only web links, since the admin inbox renders it as one
+const LINK_PATTERN = /^https?:\/\/[^\s/$.?#][^\s]*$/i;
+
+export type ContactSchemaMessages = Record<ContactMessageKey, string>;
+
+/**
+ * Inquiry type plus its details. Every detail field is accepted as input (the
+ * form keeps values when switching type), but only the selected type's
+ * required fields are enforced and only its non-empty fields are kept.
+ */
+const createInquirySchema = (t: ContactSchemaMessages) => {
+  const detail = z
+    .string({ invalid_type_error: t.inquiryDetailRequired })
+    .trim()
+    .max(INQUIRY_DETAIL_MAX_LENGTH, t.inquiryDetailTooLong)
+    .optional();
+
+  return z
+    .object({
+      type: z.enum(INQUIRY_TYPES, { errorMap: () => ({ message: t.inquiryTypeInvalid }) }).default(DEFAULT_INQUIRY_TYPE),
+      details: z
+        .object({
+          company: detail,
+          role: detail,
+          location: detail,
+          budget: detail,
+          timeline: detail,
+          organization: detail,
+          link: detail,
+        } satisfies Record<InquiryDetailField, typeof detail>)
+        .default({}),
+    })
+    .superRefine(({ type, details }, ctx) => {
+      for (const { field, required } of INQUIRY_FIELDS[type]) {
+        const value = details[field];
+        if (required && !value) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["details", field], message: t.inquiryDetailRequired });
+        } else if (field === "link" && value && !LINK_PATTERN.test(value)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["details", field], message: t.linkInvalid });
+        }
+      }
+    })
+    .transform(({ type, details }) => {
+      const kept: InquiryDetails = {};
+      for (const { field } of INQUIRY_FIELDS[type]) {
+        if (details[field]) kept[field] = details[field];
+      }
+      return { type, details: kept };
+    })
+    .default({});
+};
+
+/** Builds the schema with error messages in the given language. Values are trimmed (and the email lowercased). */
+export const createContactSchema = (t: ContactSchemaMessages = contactMessages.en) =>
+  z.object({
+    name: z
+      .string({ required_error: t.nameRequired, invalid_type_error: t.nameRequired })
+      .trim()
+      .min(1, t.nameRequired)
+      .min(CONTACT_LIMITS.name.min, t.nameTooShort)
+      .max(CONTACT_LIMITS.name.max, t.nameTooLong),
+    email: z
+      .string({ required_error: t.emailRequired, invalid_type_error: t.emailRequired })
+      .trim()
+      .toLowerCase()
+      .min(1, t.emailRequired)
+      .max(CONTACT_LIMITS.email.max, t.emailTooLong)
+      .regex(EMAIL_PATTERN, t.emailInvalid)
+      .refine((email) => !isDisposableEmail(email), t.emailDisposable),
+    message: z
+      .string({ required_error: t.messageRequired, invalid_type_error: t.messageRequired })
+      .trim()
+      .min(1, t.messageRequired)
+      .min(CONTACT_LIMITS.message.min, t.messageTooShort)
+      .max(CONTACT_LIMITS.message.max, t.messageTooLong),
+    inquiry: createInquirySchema(t),
+    attachments: createAttachmentsSchema(t),
+  });
+
+export type ContactSchema = ReturnType<typeof createContactSchema>;
+export type ContactFormInput = z.input<ContactSchema>;
+export type ContactSubmission = z.output<ContactSchema>;
+export type ContactField = keyof ContactSubmission;
+
+/** Dotted path of an input, matching the form's field names (e.g. "inquiry.details.company"). */
+export type ContactFieldPath =
+  | Exclude<ContactField, "inquiry">
+  | "inquiry.type"
+  | `inquiry.details.${InquiryDetailField}`
+  | "attachments";
+
+/** First error per field, e.g. `{ email: "Please enter a valid email address" }`. */
+export type ContactFieldErrors = Partial<Record<ContactFieldPath, string>>;
+
+export function contactFieldErrors(error: z.ZodError<ContactFormInput>): ContactFieldErrors {
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    // Problems with one item of a list (e.g. attachments.1.size) are reported on the list
+    const itemIndex = issue.path.findIndex((segment) => typeof segment === "number");
+    const path = (itemIndex === -1 ? issue.path : issue.path.slice(0, itemIndex)).join(".");
+    if (path && !(path in fieldErrors)) fieldErrors[path] = issue.message;
+  }
+  return fieldErrors as ContactFieldErrors;
+}
+
+/**
+ * Hidden honeypot input. People never see it, so anything typed into it means a
+ * bot filled in every field it found.
+ */
+export const HONEYPOT_FIELD = "website";
+
+/** Anything faster than this from first touching the form to submit is treated as automated. */
+export const MIN_FILL_TIME_MS = 3000;
+
+/** Anti-spam fields sent alongside the message (see start-token.ts and proof-of-work.ts). */
+export const contactGuardSchema = z.object({
+  [HONEYPOT_FIELD]: z.string().optional(),
+  startToken: z.string().max(100),
+  proof: z.object({
+    nonce: z.number().int().nonnegative(),
+  }),
+});
+
+export type ContactGuard = z.infer<typeof contactGuardSchema>;
+
+/** Why a submission was held back; stored in contact_spam_attempts.reason. "blocked" means a blocklist match. */
+export type SpamCheckReason = "honeypot" | "too_fast" | "invalid_proof" | "blocked";
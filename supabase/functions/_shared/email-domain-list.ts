@@ -0,0 +1,173 @@
+// Domain lists behind email-domains.ts, bundled so checks need no network
+// lookups. Lowercase and sorted; to update, edit the arrays and redeploy
+// submit-contact (the site picks the change up on its next build).
+
+/**
+ * Throwaway inbox services. Subdomains match too, so "x.mailinator.com" is
+ * covered by "mailinator.com". Sources: the disposable-email-domains project
+ * plus services seen in blocked attempts.
+ */
+export const DISPOSABLE_EMAIL_DOMAINS: readonly string[] = [
+  "10minutemail.com",
+  "10minutemail.net",
+  "20minutemail.com",
+  "33mail.com",
+  "anonbox.net",
+  "burnermail.io",
+  "byom.de",
+  "discard.email",
+  "dispostable.com",
+  "dropmail.me",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "fakemail.net",
+  "getairmail.com",
+  "getnada.com",
+  "guerrillamail.biz",
+  "guerrillamail.com",
+  "guerrillamail.de",
+  "guerrillamail.info",
+  "guerrillamail.net",
+  "guerrillamail.org",
+  "guerrillamailblock.com",
+  "harakirimail.com",
+  "inboxbear.com",
+  "incognitomail.org",
+  "jetable.org",
+  "mail-temp.com",
+  "mail.tm",
+  "mailcatch.com",
+  "maildrop.cc",
+  "mailinator.com",
+  "mailinator.net",
+  "mailnesia.com",
+  "mailpoof.com",
+  "mintemail.com",
+  "moakt.com",
+  "mohmal.com",
+  "mytemp.email",
+  "nada.email",
+  "sharklasers.com",
+  "spam4.me",
+  "spambox.us",
+  "spamgourmet.com",
+  "tempail.com",
+  "tempmail.com",
+  "tempmail.net",
+  "tempmailo.com",
+  "temp-mail.io",
+  "temp-mail.org",
+  "tempinbox.com",
+  "tempr.email",
+  "throwawaymail.com",
+  "tmail.ws",
+  "tmpmail.net",
+  "tmpmail.org",
+  "trashmail.com",
+  "trashmail.de",
+  "trashmail.net",
+  "yopmail.com",
+  "yopmail.fr",
+  "yopmail.net",
+];
+
+/**
+ * Popular mailbox providers, including the ones common in Indonesia. Typos are
+ * checked against these, so a real provider that sits close to another one
+ * (email.com and gmail.com) belongs here too.
+ */
+export const EMAIL_PROVIDER_DOMAINS: readonly string[] = [
+  "126.com",
+  "163.com",
+  "aol.com",
+  "att.net",
+  "btinternet.com",
+  "comcast.net",
+  "daum.net",
+  "email.com",
+  "fastmail.com",
+  "free.fr",
+  "gmail.com",
+  "gmx.at",
+  "gmx.com",
+  "gmx.de",
+  "gmx.net",
+  "googlemail.com",
+  "hey.com",
+  "hotmail.co.uk",
+  "hotmail.com",
+  "hotmail.de",
+  "hotmail.es",
+  "hotmail.fr",
+  "hotmail.it",
+  "hushmail.com",
+  "icloud.com",
+  "inbox.com",
+  "laposte.net",
+  "libero.it",
+  "live.co.uk",
+  "live.com",
+  "live.fr",
+  "mail.com",
+  "mail.ru",
+  "me.com",
+  "msn.com",
+  "naver.com",
+  "orange.fr",
+  "outlook.co.id",
+  "outlook.com",
+  "outlook.de",
+  "outlook.fr",
+  "pm.me",
+  "proton.me",
+  "protonmail.com",
+  "qq.com",
+  "rocketmail.com",
+  "t-online.de",
+  "tutanota.com",
+  "verizon.net",
+  "web.de",
+  "yahoo.ca",
+  "yahoo.co.id",
+  "yahoo.co.jp",
+  "yahoo.co.uk",
+  "yahoo.com",
+  "yahoo.com.au",
+  "yahoo.com.sg",
+  "yahoo.de",
+  "yahoo.es",
+  "yahoo.fr",
+  "yahoo.in",
+  "yahoo.it",
+  "yandex.com",
+  "yandex.ru",
+  "ymail.com",
+  "zoho.com",
+  "zohomail.com",
+];
+
+/** Local parts of shared or unattended mailboxes, which bots like to fill in. */
+export const ROLE_EMAIL_LOCAL_PARTS: readonly string[] = [
+  "abuse",
+  "admin",
+  "administrator",
+  "billing",
+  "contact",
+  "do-not-reply",
+  "donotreply",
+  "help",
+  "hostmaster",
+  "info",
+  "mail",
+  "marketing",
+  "no-reply",
+  "noreply",
+  "office",
+  "postmaster",
+  "root",
+  "sales",
+  "security",
+  "support",
+  "team",
+  "webmaster",
+];
@@ -0,0 +1,32 @@
+// Run with `deno test supabase/functions/_shared`.
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import { isDisposableEmail, isRoleEmail, suggestEmail, suggestEmailDomain } from "./email-domains.ts";
+
+Deno.test("suggests the provider for a mistyped domain", () => {
+  strictEqual(suggestEmailDomain("gmial.com"), "gmail.com");
+  strictEqual(suggestEmailDomain("gmail.co"), "gmail.com");
+  strictEqual(suggestEmailDomain("hotmial.com"), "hotmail.com");
+  strictEqual(suggestEmailDomain("example.con"), "example.com");
+  strictEqual(suggestEmail("Ada+work@GMIAL.com"), "Ada+work@gmail.com");
+});
+
+Deno.test("leaves real domains one edit away from a short provider alone", () => {
+  const domains = ["aon.com", "key.com", "gmc.com", "mtn.com", "sol.com", "mc.com"];
+  deepStrictEqual(
+    domains.map((domain) => [domain, suggestEmailDomain(domain)]),
+    domains.map((domain) => [domain, null])
+  );
+});
+
+Deno.test("leaves providers and their other country domains alone", () => {
+  for (const domain of ["email.com", "yahoo.co.jp", "hotmail.co.jp", "omantel.om", "gmail.com"]) {
+    strictEqual(suggestEmailDomain(domain), null, domain);
+  }
+});
+
+Deno.test("flags disposable and role addresses", () => {
+  strictEqual(isDisposableEmail("someone@mailinator.com"), true);
+  strictEqual(isDisposableEmail("someone@example.com"), false);
+  strictEqual(isRoleEmail("info+site@example.com"), true);
+  strictEqual(isRoleEmail("ada@example.com"), false);
+});
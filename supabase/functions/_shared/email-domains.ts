@@ -0,0 +1,101 @@
+// Checks on the domain and mailbox of a sender's address, against the bundled
+// lists in email-domain-list.ts. The contact schema rejects disposable
+// addresses, the form suggests corrections for typos, and submit-contact flags
+// typos and role addresses as spam signals. Keep this module free of Deno and
+// DOM globals.
+import { DISPOSABLE_EMAIL_DOMAINS, EMAIL_PROVIDER_DOMAINS, ROLE_EMAIL_LOCAL_PARTS } from "./email-domain-list.ts";
+
+const disposableDomains = new Set(DISPOSABLE_EMAIL_DOMAINS);
+const providerDomains = new Set(EMAIL_PROVIDER_DOMAINS);
+const roleLocalParts = new Set(ROLE_EMAIL_LOCAL_PARTS);
+
+// Slips of the finger on the last label, for any domain
+const TLD_TYPOS: Record<string, string> = {
+  cim: "com",
+  cmo: "com",
+  con: "com",
+  comm: "com",
+  ocm: "com",
+  vom: "com",
+  xom: "com",
+  ent: "net",
+  nte: "net",
+  ogr: "org",
+  rog: "org",
+};
+
+/** Splits at the last "@"; both parts lowercased. */
+function splitEmail(email: string): { local: string; domain: string } {
+  const at = email.lastIndexOf("@");
+  return { local: email.slice(0, at).toLowerCase(), domain: email.slice(at + 1).toLowerCase() };
+}
+
+/** True for a known throwaway inbox service or one of its subdomains. */
+export function isDisposableEmailDomain(domain: string): boolean {
+  const labels = domain.toLowerCase().split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    if (disposableDomains.has(labels.slice(i).join("."))) return true;
+  }
+  return false;
+}
+
+export const isDisposableEmail = (email: string) => isDisposableEmailDomain(splitEmail(email).domain);
+
+/** True for shared mailboxes such as info@ or noreply@ (ignoring any +tag). */
+export const isRoleEmail = (email: string) => roleLocalParts.has(splitEmail(email).local.split("+")[0]);
+
+/** Edit distance counting a swap of neighbouring letters as one edit (optimal string alignment). */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// Short provider domains sit too close to real ones (aon.com is not aol.com,
+// key.com is not hey.com), so below nine characters only an exact match counts
+const allowedEdits = (provider: string) => (provider.length >= 11 ? 2 : provider.length >= 9 ? 1 : 0);
+
+const COUNTRY_CODE = /\.[a-z]{2}$/;
+
+// yahoo.co.jp is not a typo of yahoo.co.id: same provider, another country's domain
+const isOtherCountryDomain = (domain: string, provider: string) =>
+  domain.split(".")[0] === provider.split(".")[0] && COUNTRY_CODE.test(domain) && COUNTRY_CODE.test(provider);
+
+/**
+ * The domain the sender probably meant, e.g. "gmail.com" for "gmial.com" or
+ * "example.com" for "example.con"; null when it looks intended.
+ */
+export function suggestEmailDomain(domain: string): string | null {
+  domain = domain.toLowerCase();
+  if (providerDomains.has(domain) || isDisposableEmailDomain(domain)) return null;
+
+  let best: { provider: string; distance: number } | null = null;
+  for (const provider of EMAIL_PROVIDER_DOMAINS) {
+    if (isOtherCountryDomain(domain, provider)) continue;
+    const distance = editDistance(domain, provider);
+    if (distance <= allowedEdits(provider) && (!best || distance < best.distance)) best = { provider, distance };
+  }
+  if (best) return best.provider;
+
+  const dot = domain.lastIndexOf(".");
+  const tld = domain.slice(dot + 1);
+  if (dot <= 0 || !Object.prototype.hasOwnProperty.call(TLD_TYPOS, tld)) return null;
+  return `${domain.slice(0, dot)}.${TLD_TYPOS[tld]}`;
+}
+
+/** The whole address with the suggested domain, or null if there's nothing to suggest. */
+export function suggestEmail(email: string): string | null {
+  if (!email.includes("@")) return null;
+  const { domain } = splitEmail(email);
+  const suggestion = suggestEmailDomain(domain);
+  return suggestion && `${email.slice(0, email.lastIndexOf("@"))}@${suggestion}`;
+}
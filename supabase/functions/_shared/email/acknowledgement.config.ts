@@ -0,0 +1,52 @@
+// Wording of the acknowledgement email sent to visitors after they use the
+// contact form. Edit freely: placeholders {name} and {reference} are filled in
+// (and escaped) when the email is rendered. Preview changes at /dev/emails.
+import type { ContactLocale } from "../contact-i18n.ts";
+
+export type AcknowledgementCopy = {
+  subject: string;
+  heading: string;
+  /** One entry per paragraph above the copy of the message. */
+  paragraphs: string[];
+  messageLabel: string;
+  referenceLabel: string;
+  signature: string;
+  footer: string;
+};
+
+export const acknowledgementConfig: {
+  /** Set to false to stop sending acknowledgements altogether. */
+  enabled: boolean;
+  /** Accent colour used for the heading rule and reference box. */
+  brandColor: string;
+  copy: Record<ContactLocale, AcknowledgementCopy>;
+} = {
+  enabled: true,
+  brandColor: "#6366f1",
+  copy: {
+    en: {
+      subject: "Thanks for your message ({reference})",
+      heading: "Thanks for getting in touch, {name}!",
+      paragraphs: [
+        "This is a quick note to confirm that your message reached me. I read every message personally and will reply as soon as I can.",
+        "If you need to follow up, just reply to this email and mention the reference below.",
+      ],
+      messageLabel: "Your message",
+      referenceLabel: "Reference",
+      signature: "Fatur Rahman",
+      footer: "You are receiving this because this address was entered in the contact form on my portfolio.",
+    },
+    id: {
+      subject: "Terima kasih atas pesan Anda ({reference})",
+      heading: "Terima kasih telah menghubungi saya, {name}!",
+      paragraphs: [
+        "Email ini untuk mengonfirmasi bahwa pesan Anda sudah saya terima. Saya membaca setiap pesan secara pribadi dan akan membalas secepatnya.",
+        "Jika ingin menindaklanjuti, cukup balas email ini dan sebutkan nomor referensi di bawah.",
+      ],
+      messageLabel: "Pesan Anda",
+      referenceLabel: "Referensi",
+      signature: "Fatur Rahman",
+      footer: "Anda menerima email ini karena alamat ini dimasukkan pada formulir kontak di portofolio saya.",
+    },
+  },
+};
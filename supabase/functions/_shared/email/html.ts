@@ -0,0 +1,48 @@
+// Escaping-by-default HTML building for email templates. Every value
+// interpolated into the `html` tag is escaped unless it is already SafeHtml
+// (the result of another `html` call or an explicit `raw`), so visitor input
+// can never inject markup into a message.
+
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString() {
+    return this.value;
+  }
+}
+
+export type HtmlValue = SafeHtml | string | number | null | undefined | false | readonly HtmlValue[];
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderValue(value: HtmlValue): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join("");
+  if (value === null || value === undefined || value === false) return "";
+  return escapeHtml(String(value));
+}
+
+/** Tagged template: html`<p>${name}</p>` escapes `name`; nested html`` fragments are kept as-is. */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  return new SafeHtml(strings.reduce((out, part, i) => out + part + (i < values.length ? renderValue(values[i]) : ""), ""));
+}
+
+/** Trusted markup that must not be escaped. Never pass user input here. */
+export const raw = (markup: string) => new SafeHtml(markup);
+
+/** Collapses line breaks so a value is safe in a header such as Subject. */
+export const singleLine = (value: string) => value.replace(/[\r\n]+/g, " ").trim();
+
+/** Prefixes each line with "> " for plaintext quoting. */
+export const quoteText = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
@@ -0,0 +1,124 @@
+// Fixture data for the dev-only email preview (/dev/emails); nothing else uses
+// it. Each template gets a realistic sample plus a hostile one, so escaping can
+// be checked by eye in the preview.
+import { acknowledgementConfig } from "./acknowledgement.config.ts";
+import {
+  contactAcknowledgement,
+  contactNotification,
+  contactReply,
+  renderEmail,
+  type ContactAcknowledgementData,
+  type ContactNotificationData,
+  type ContactReplyData,
+  type EmailTemplate,
+  type RenderedEmail,
+} from "./templates.ts";
+
+export type EmailSample<T> = { label: string; data: T };
+
+export type EmailPreview = {
+  description: string;
+  samples: { label: string; render: () => RenderedEmail }[];
+};
+
+const preview = <T>(template: EmailTemplate<T>, samples: EmailSample<T>[]): EmailPreview => ({
+  description: template.description,
+  samples: samples.map(({ label, data }) => ({ label, render: () => renderEmail(template, data) })),
+});
+
+const HOSTILE_TEXT = `<script>alert("xss")</script><img src=x onerror=alert(1)> & "quotes" 'too'`;
+
+export const contactNotificationSamples: EmailSample<ContactNotificationData>[] = [
+  {
+    label: "Typical message",
+    data: {
+      name: "Siti Nurhaliza",
+      email: "siti@example.com",
+      message: "Hi Fatur,\n\nI saw your LoRa mesh project and would love to talk about an IoT role on our team.\n\nThanks!",
+      reference: "MSG-3F2A9C1B",
+      inquiry: {
+        type: "job",
+        details: { company: "Nusantara Sensor Labs", role: "Embedded / IoT Engineer", location: "Medan (hybrid)" },
+      },
+      attachments: [{ name: "Embedded-Engineer-JD.pdf", size: 248_312 }],
+    },
+  },
+  {
+    label: "Freelance project",
+    data: {
+      name: "Budi Santoso",
+      email: "budi@example.com",
+      message: "Halo Fatur, saya butuh dashboard pemantauan untuk 20 perangkat sensor. Apakah Anda tersedia?",
+      reference: "MSG-9D04E7AA",
+      inquiry: { type: "freelance", details: { budget: "Rp 15–25 juta", timeline: "6 weeks, starting April" } },
+      attachments: [],
+    },
+  },
+  {
+    label: "Markup injection attempt",
+    data: {
+      name: `<b>Bold</b> ${HOSTILE_TEXT}`,
+      email: `x"><script>alert(1)</script>@example.com`,
+      message: `${HOSTILE_TEXT}\n<a href="javascript:alert(1)">click me</a>`,
+      reference: "MSG-3F2A9C1B",
+      inquiry: { type: "collaboration", details: { organization: HOSTILE_TEXT, link: `https://example.com/"><script>alert(1)</script>` } },
+      attachments: [{ name: `${HOSTILE_TEXT}.pdf`, size: 1024 }],
+    },
+  },
+];
+
+export const contactReplySamples: EmailSample<ContactReplyData>[] = [
+  {
+    label: "Typical reply",
+    data: {
+      reply: "Hi Siti,\n\nThanks for reaching out! I'm available for a call this week.\n\nBest,\nFatur",
+      originalName: "Siti Nurhaliza",
+      originalMessage: "Hi Fatur,\n\nI saw your LoRa mesh project and would love to talk about an IoT role on our team.",
+      sentOn: "Mon, 02 Mar 2026 09:15:00 GMT",
+    },
+  },
+  {
+    label: "Markup injection attempt",
+    data: {
+      reply: `Quoting you: ${HOSTILE_TEXT}`,
+      originalName: HOSTILE_TEXT,
+      originalMessage: HOSTILE_TEXT,
+      sentOn: "Mon, 02 Mar 2026 09:15:00 GMT",
+    },
+  },
+];
+
+export const contactAcknowledgementSamples: EmailSample<ContactAcknowledgementData>[] = [
+  {
+    label: "English",
+    data: {
+      ...contactNotificationSamples[0].data,
+      copy: acknowledgementConfig.copy.en,
+      brandColor: acknowledgementConfig.brandColor,
+    },
+  },
+  {
+    label: "Indonesian",
+    data: {
+      name: "Budi Santoso",
+      message: "Halo Fatur, saya tertarik dengan proyek Toba Market. Apakah Anda terbuka untuk proyek freelance?",
+      reference: "MSG-9D04E7AA",
+      copy: acknowledgementConfig.copy.id,
+      brandColor: acknowledgementConfig.brandColor,
+    },
+  },
+  {
+    label: "Markup injection attempt",
+    data: {
+      ...contactNotificationSamples[2].data,
+      copy: acknowledgementConfig.copy.en,
+      brandColor: acknowledgementConfig.brandColor,
+    },
+  },
+];
+
+export const emailPreviews: Record<string, EmailPreview> = {
+  "contact-notification": preview(contactNotification, contactNotificationSamples),
+  "contact-acknowledgement": preview(contactAcknowledgement, contactAcknowledgementSamples),
+  "contact-reply": preview(contactReply, contactReplySamples),
+};
@@ -0,0 +1,188 @@
+// Email templates. Each one renders a subject, an HTML body and a plaintext
+// alternative from plain data, with no I/O, so templates can be previewed in
+// the app (/dev/emails) exactly as they will be sent.
+import { html, quoteText, singleLine, type SafeHtml } from "./html.ts";
+import type { AcknowledgementCopy } from "./acknowledgement.config.ts";
+import { formatBytes } from "../attachments.ts";
+import { INQUIRY_TYPE_LABELS, describeInquiryDetails, type InquiryDetails, type InquiryType } from "../inquiry.ts";
+
+export interface EmailTemplate<T> {
+  /** Shown in the dev preview. */
+  description: string;
+  subject: (data: T) => string;
+  html: (data: T) => SafeHtml;
+  text: (data: T) => string;
+}
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export function renderEmail<T>(template: EmailTemplate<T>, data: T): RenderedEmail {
+  return {
+    subject: singleLine(template.subject(data)),
+    html: template.html(data).value,
+    text: template.text(data),
+  };
+}
+
+const layout = (content: SafeHtml, footer?: string) => html`
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+    ${content}
+    ${footer &&
+    html`
+      <hr style="margin-top: 30px; border: none; border-top: 1px solid #eee;" />
+      <p style="color: #999; font-size: 12px;">${footer}</p>
+    `}
+  </div>
+`;
+
+export type ContactNotificationData = {
+  name: string;
+  email: string;
+  message: string;
+  reference: string;
+  inquiry: { type: InquiryType; details: InquiryDetails };
+  /** Files the visitor is uploading; they're only reachable from the admin inbox. */
+  attachments: { name: string; size: number }[];
+};
+
+/** Sent to the site owner for every new contact form message. */
+export const contactNotification: EmailTemplate<ContactNotificationData> = {
+  description: "Owner notification for a new contact form message",
+  subject: ({ name, inquiry }) =>
+    inquiry.type === "general"
+      ? `New Contact Form Message from ${name}`
+      : `New Contact Form Message from ${name} (${INQUIRY_TYPE_LABELS[inquiry.type]})`,
+  html: ({ name, email, message, reference, inquiry, attachments }) =>
+    layout(
+      html`
+        <h2 style="color: #333; border-bottom: 2px solid #6366f1; padding-bottom: 10px;">New Contact Form Submission</h2>
+        <div style="margin: 20px 0;">
+          <p><strong>Name:</strong> ${name}</p>
+          <p><strong>Email:</strong> <a href="mailto:${email}">${email}</a></p>
+          <p><strong>Reference:</strong> ${reference}</p>
+          <p><strong>Inquiry:</strong> ${INQUIRY_TYPE_LABELS[inquiry.type]}</p>
+          ${describeInquiryDetails(inquiry.type, inquiry.details).map(
+            ({ label, value }) => html`<p><strong>${label}:</strong> ${value}</p>`
+          )}
+        </div>
+        <div style="background: #f5f5f5; padding: 15px; border-radius: 8px;">
+          <p><strong>Message:</strong></p>
+          <p style="white-space: pre-wrap;">${message}</p>
+        </div>
+        ${attachments.length > 0 &&
+        html`
+          <div style="margin-top: 20px;">
+            <p><strong>Attachments</strong> (download them from the admin inbox):</p>
+            <ul>
+              ${attachments.map(({ name, size }) => html`<li>${name} (${formatBytes(size)})</li>`)}
+            </ul>
+          </div>
+        `}
+      `,
+      "Sent from your portfolio contact form"
+    ),
+  text: ({ name, email, message, reference, inquiry, attachments }) =>
+    [
+      "New Contact Form Submission",
+      "",
+      `Name: ${name}`,
+      `Email: ${email}`,
+      `Reference: ${reference}`,
+      `Inquiry: ${INQUIRY_TYPE_LABELS[inquiry.type]}`,
+      ...describeInquiryDetails(inquiry.type, inquiry.details).map(({ label, value }) => `${label}: ${singleLine(value)}`),
+      "",
+      "Message:",
+      message,
+      "",
+      ...(attachments.length > 0
+        ? [
+            "Attachments (download them from the admin inbox):",
+            ...attachments.map(({ name, size }) => `- ${singleLine(name)} (${formatBytes(size)})`),
+            "",
+          ]
+        : []),
+      "--",
+      "Sent from your portfolio contact form",
+    ].join("\n"),
+};
+
+export type ContactReplyData = {
+  reply: string;
+  originalName: string;
+  originalMessage: string;
+  /** When the original message was sent, already formatted. */
+  sentOn: string;
+};
+
+/** The owner's reply from the admin inbox, quoting the visitor's message. */
+export const contactReply: EmailTemplate<ContactReplyData> = {
+  description: "Reply from the admin inbox to a contact message",
+  subject: () => "Re: Your message via my portfolio",
+  html: ({ reply, originalName, originalMessage, sentOn }) =>
+    layout(html`
+      <p style="white-space: pre-wrap;">${reply}</p>
+      <blockquote style="margin: 30px 0 0; padding-left: 12px; border-left: 3px solid #ddd; color: #666;">
+        <p style="font-size: 12px;">On ${sentOn}, ${originalName} wrote:</p>
+        <p style="white-space: pre-wrap;">${originalMessage}</p>
+      </blockquote>
+    `),
+  text: ({ reply, originalName, originalMessage, sentOn }) =>
+    `${reply}\n\nOn ${sentOn}, ${originalName} wrote:\n${quoteText(originalMessage)}`,
+};
+
+export type ContactAcknowledgementData = {
+  name: string;
+  message: string;
+  reference: string;
+  copy: AcknowledgementCopy;
+  brandColor: string;
+};
+
+/** Replaces {name}/{reference} in config copy; the result is escaped like any other value. */
+const fill = (text: string, { name, reference }: Pick<ContactAcknowledgementData, "name" | "reference">) =>
+  text.replace(/\{(name|reference)\}/g, (_, key: "name" | "reference") => (key === "name" ? name : reference));
+
+/** Sent to the visitor as a receipt; wording comes from acknowledgement.config.ts. */
+export const contactAcknowledgement: EmailTemplate<ContactAcknowledgementData> = {
+  description: "Acknowledgement sent to the visitor after they submit the contact form",
+  subject: (data) => fill(data.copy.subject, data),
+  html: (data) => {
+    const { copy, message, reference, brandColor } = data;
+    return layout(
+      html`
+        <h2 style="color: #333; border-bottom: 2px solid ${brandColor}; padding-bottom: 10px;">${fill(copy.heading, data)}</h2>
+        ${copy.paragraphs.map((paragraph) => html`<p style="color: #333; line-height: 1.5;">${fill(paragraph, data)}</p>`)}
+        <p style="margin: 20px 0; padding: 10px 15px; border-left: 4px solid ${brandColor}; background: #f5f5ff;">
+          <strong>${copy.referenceLabel}:</strong> ${reference}
+        </p>
+        <div style="background: #f5f5f5; padding: 15px; border-radius: 8px;">
+          <p><strong>${copy.messageLabel}:</strong></p>
+          <p style="white-space: pre-wrap;">${message}</p>
+        </div>
+        <p style="margin-top: 20px; color: #333;">— ${copy.signature}</p>
+      `,
+      copy.footer
+    );
+  },
+  text: (data) => {
+    const { copy, message, reference } = data;
+    return [
+      fill(copy.heading, data),
+      "",
+      ...copy.paragraphs.flatMap((paragraph) => [fill(paragraph, data), ""]),
+      `${copy.referenceLabel}: ${reference}`,
+      "",
+      `${copy.messageLabel}:`,
+      quoteText(message),
+      "",
+      `— ${copy.signature}`,
+      "",
+      "--",
+      copy.footer,
+    ].join("\n");
+  },
+};
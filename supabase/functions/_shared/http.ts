@@ -0,0 +1,66 @@
+// CORS for the edge functions: only the site's own origins may call them from
+// a browser, so other websites can't post into the inbox from their visitors'
+// browsers.
+//
+// Configuration (function secrets / supabase/functions/.env):
+//   ALLOWED_ORIGINS  comma-separated origins; "*." matches one subdomain level,
+//                    e.g. "https://example.github.io,https://*.lovable.app"
+
+const DEFAULT_ALLOWED_ORIGINS = [
+  "https://faturrahman080402.github.io",
+  "https://*.lovable.app",
+  "https://*.lovableproject.com",
+  "http://localhost:8080",
+  "http://127.0.0.1:8080",
+].join(",");
+
+const corsHeaders = {
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version, idempotency-key",
+  // Lets the contact form read how long a rate-limited visitor has to wait.
+  "Access-Control-Expose-Headers": "Retry-After",
+  // Responses differ by Origin, so caches must not share them across sites
+  Vary: "Origin",
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const originPatterns = (Deno.env.get("ALLOWED_ORIGINS") || DEFAULT_ALLOWED_ORIGINS)
+  .split(",")
+  .map((origin) => origin.trim().replace(/\/+$/, "").toLowerCase())
+  .filter(Boolean)
+  .map((origin) => new RegExp(`^${escapeRegExp(origin).replace("\\*\\.", "[a-z0-9-]+\\.")}$`));
+
+export const isAllowedOrigin = (origin: string) =>
+  originPatterns.some((pattern) => pattern.test(origin.toLowerCase()));
+
+/**
+ * Wraps a function's handler: answers preflight requests, turns away browsers
+ * on other sites with a 403 that names their origin, and adds the CORS headers
+ * (echoing the caller's origin) to every response. Requests without an Origin
+ * header don't come from a page on another site and pass through.
+ */
+export function withCors(handler: (req: Request) => Promise<Response>) {
+  return async (req: Request): Promise<Response> => {
+    const origin = req.headers.get("origin");
+    if (origin && !isAllowedOrigin(origin)) {
+      console.log(`Rejected request from origin: ${origin}`);
+      return new Response(JSON.stringify({ error: `Origin ${origin} is not allowed to call this function` }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const response = req.method === "OPTIONS" ? new Response("ok") : await handler(req);
+    for (const [name, value] of Object.entries(corsHeaders)) response.headers.set(name, value);
+    if (origin) response.headers.set("Access-Control-Allow-Origin", origin);
+    return response;
+  };
+}
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
@@ -0,0 +1,74 @@
+// Inquiry types offered by the contact form and the extra fields each one asks
+// for. Stored in contact_messages.inquiry_type / inquiry_details and shared by
+// the form, the submit-contact function, the notification email and the admin
+// inbox. Keep this module free of Deno and DOM globals.
+
+/** Same values, same order as the contact_inquiry_type enum. */
+export const INQUIRY_TYPES = ["job", "freelance", "collaboration", "general"] as const;
+
+export type InquiryType = (typeof INQUIRY_TYPES)[number];
+
+export const DEFAULT_INQUIRY_TYPE: InquiryType = "general";
+
+export const INQUIRY_DETAIL_FIELDS = ["company", "role", "location", "budget", "timeline", "organization", "link"] as const;
+
+export type InquiryDetailField = (typeof INQUIRY_DETAIL_FIELDS)[number];
+
+export type InquiryDetails = Partial<Record<InquiryDetailField, string>>;
+
+export const INQUIRY_DETAIL_MAX_LENGTH = 200;
+
+/** Fields shown for each type, in display order. */
+export const INQUIRY_FIELDS: Record<InquiryType, readonly { field: InquiryDetailField; required: boolean }[]> = {
+  job: [
+    { field: "company", required: true },
+    { field: "role", required: true },
+    { field: "location", required: false },
+  ],
+  freelance: [
+    { field: "budget", required: true },
+    { field: "timeline", required: true },
+  ],
+  collaboration: [
+    { field: "organization", required: false },
+    { field: "link", required: false },
+  ],
+  general: [],
+};
+
+export const isInquiryType = (value: unknown): value is InquiryType =>
+  (INQUIRY_TYPES as readonly unknown[]).includes(value);
+
+// Owner-facing labels (notification email, admin inbox). The form has its own
+// localized copy in src/i18n/messages.
+export const INQUIRY_TYPE_LABELS: Record<InquiryType, string> = {
+  job: "Job opportunity",
+  freelance: "Freelance project",
+  collaboration: "Collaboration",
+  general: "General",
+};
+
+export const INQUIRY_DETAIL_LABELS: Record<InquiryDetailField, string> = {
+  company: "Company",
+  role: "Role",
+  location: "Location",
+  budget: "Budget",
+  timeline: "Timeline",
+  organization: "Organization",
+  link: "Link",
+};
+
+/**
+ * The filled-in details for a type as label/value pairs, in display order.
+ * Accepts the raw inquiry_details JSON, ignoring anything that isn't a string.
+ */
+export function describeInquiryDetails(
+  type: InquiryType,
+  details: unknown
+): { field: InquiryDetailField; label: string; value: string }[] {
+  const values = (details && typeof details === "object" ? details : {}) as Record<string, unknown>;
+  return INQUIRY_FIELDS[type].flatMap(({ field }) => {
+    const value = values[field];
+    return typeof value === "string" && value ? [{ field, label: INQUIRY_DETAIL_LABELS[field], value }] : [];
+  });
+}
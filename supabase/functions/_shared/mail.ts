@@ -0,0 +1,66 @@
+// Outbound mail shared by every edge function, so notifications and admin
+// replies go through the same provider and sender identity.
+//
+// Configuration (function secrets / supabase/functions/.env):
+//   MAIL_TRANSPORT     resend (default) | smtp | log
+//   MAIL_FROM          sender, e.g. "Portfolio Contact <hello@example.com>"
+//   CONTACT_RECIPIENT  where contact form notifications go
+//   RESEND_API_KEY     for resend
+//   SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD   for smtp
+//   MAIL_LOG_DIR       for log: also write each email there as JSON
+import { createLogTransport } from "./mail/log.ts";
+import { createResendTransport } from "./mail/resend.ts";
+import { createSmtpTransport } from "./mail/smtp.ts";
+import type { MailTransport, OutgoingEmail, SendResult } from "./mail/transport.ts";
+
+export type { MailTransport, OutgoingEmail, SendResult } from "./mail/transport.ts";
+
+const DEFAULT_OWNER_EMAIL = "faturrahman3384@gmail.com";
+const DEFAULT_MAIL_FROM = "Portfolio Contact <onboarding@resend.dev>";
+
+export const OWNER_EMAIL = Deno.env.get("CONTACT_RECIPIENT") || DEFAULT_OWNER_EMAIL;
+export const MAIL_FROM = Deno.env.get("MAIL_FROM") || DEFAULT_MAIL_FROM;
+
+export const MAIL_TRANSPORTS = ["resend", "smtp", "log"] as const;
+export type MailTransportName = (typeof MAIL_TRANSPORTS)[number];
+
+function createTransport(name: MailTransportName): MailTransport {
+  switch (name) {
+    case "smtp": {
+      const port = Number(Deno.env.get("SMTP_PORT") || 465);
+      const secure = Deno.env.get("SMTP_SECURE");
+      return createSmtpTransport({
+        host: Deno.env.get("SMTP_HOST"),
+        port,
+        secure: secure ? secure === "true" : port === 465,
+        user: Deno.env.get("SMTP_USER"),
+        password: Deno.env.get("SMTP_PASSWORD"),
+      });
+    }
+    case "log":
+      return createLogTransport(Deno.env.get("MAIL_LOG_DIR"));
+    case "resend":
+      return createResendTransport(Deno.env.get("RESEND_API_KEY"));
+  }
+}
+
+let transport: MailTransport | undefined;
+
+/** The transport selected by MAIL_TRANSPORT, created once per isolate. */
+export function mailTransport(): MailTransport {
+  if (!transport) {
+    const requested = (Deno.env.get("MAIL_TRANSPORT") || "resend").toLowerCase();
+    const name = (MAIL_TRANSPORTS as readonly string[]).includes(requested)
+      ? (requested as MailTransportName)
+      : "resend";
+    if (name !== requested) {
+      console.error(`Unknown MAIL_TRANSPORT "${requested}", falling back to resend`);
+    }
+    transport = createTransport(name);
+  }
+  return transport;
+}
+
+export function sendEmail(email: OutgoingEmail): Promise<SendResult> {
+  return mailTransport().send({ ...email, from: MAIL_FROM });
+}
@@ -0,0 +1,28 @@
+import type { AddressedEmail, MailTransport, SendResult } from "./transport.ts";
+
+/**
+ * Never sends anything: each email is logged, and also written as JSON to
+ * `dir` when one is given. For local development and tests without network access.
+ */
+export function createLogTransport(dir: string | undefined): MailTransport {
+  return {
+    name: "log",
+    async send(email: AddressedEmail): Promise<SendResult> {
+      const id = `${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomUUID()}`;
+      console.log(`[mail:log] ${id} to=${email.to.join(", ")} subject=${JSON.stringify(email.subject)}`);
+
+      if (!dir) {
+        console.log(email.text ?? email.html);
+        return { sent: true, id };
+      }
+
+      try {
+        await Deno.mkdir(dir, { recursive: true });
+        await Deno.writeTextFile(`${dir}/${id}.json`, JSON.stringify(email, null, 2));
+        return { sent: true, id };
+      } catch (err) {
+        return { sent: false, error: err instanceof Error ? err.message : String(err) };
+      }
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import type { AddressedEmail, MailTransport, SendResult } from "./transport.ts";
+
+const RESEND_API_URL = "https://api.resend.com/emails";
+
+export function createResendTransport(apiKey: string | undefined): MailTransport {
+  return {
+    name: "resend",
+    async send(email: AddressedEmail): Promise<SendResult> {
+      if (!apiKey) {
+        return { sent: false, error: "RESEND_API_KEY is not configured" };
+      }
+
+      try {
+        const response = await fetch(RESEND_API_URL, {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            from: email.from,
+            to: email.to,
+            subject: email.subject,
+            html: email.html,
+            text: email.text,
+            reply_to: email.replyTo,
+          }),
+        });
+
+        if (!response.ok) {
+          return { sent: false, error: await response.text() };
+        }
+
+        const data = await response.json().catch(() => ({}));
+        return { sent: true, id: data?.id ?? null };
+      } catch (err) {
+        return { sent: false, error: err instanceof Error ? err.message : String(err) };
+      }
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import nodemailer from "nodemailer";
+import type { AddressedEmail, MailTransport, SendResult } from "./transport.ts";
+
+export type SmtpConfig = {
+  host: string | undefined;
+  /** Hosted Supabase blocks outbound 25 and 587, so implicit TLS on 465 is the default. */
+  port: number;
+  /** Implicit TLS; defaults to true on port 465. */
+  secure: boolean;
+  user: string | undefined;
+  password: string | undefined;
+};
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const transporter = config.host
+    ? nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    })
+    : null;
+
+  return {
+    name: "smtp",
+    async send(email: AddressedEmail): Promise<SendResult> {
+      if (!transporter) {
+        return { sent: false, error: "SMTP_HOST is not configured" };
+      }
+
+      try {
+        const info = await transporter.sendMail({
+          from: email.from,
+          to: email.to,
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+          replyTo: email.replyTo,
+        });
+        return { sent: true, id: info.messageId ?? null };
+      } catch (err) {
+        return { sent: false, error: err instanceof Error ? err.message : String(err) };
+      }
+    },
+  };
+}
@@ -0,0 +1,25 @@
+// The contract every mail provider implements. Edge functions only talk to
+// sendEmail() in ../mail.ts, which picks a transport from MAIL_TRANSPORT.
+
+export interface OutgoingEmail {
+  to: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+}
+
+/** An OutgoingEmail with the sender filled in, as handed to a transport. */
+export interface AddressedEmail extends OutgoingEmail {
+  from: string;
+}
+
+export type SendResult =
+  | { sent: true; id: string | null }
+  | { sent: false; error: string };
+
+export interface MailTransport {
+  /** For logs, e.g. "resend". */
+  name: string;
+  send(email: AddressedEmail): Promise<SendResult>;
+}
@@ -0,0 +1,57 @@
+// Hashcash-style proof of work for the contact form. The browser searches for a
+// nonce whose SHA-256 hash (together with the message) starts with
+// POW_DIFFICULTY zero bits; the edge function checks it with a single hash.
+// Cheap for one visitor, expensive for a bot sending thousands of messages.
+// Uses only Web Crypto, so it runs unchanged in Deno and in the browser.
+import type { ContactSubmission } from "./contact-schema.ts";
+
+/** ~65k hashes on average, well under a second or two on a phone. */
+export const POW_DIFFICULTY = 16;
+
+export type ProofOfWorkInput = ContactSubmission & {
+  /** The form's start token; bound into the hash so a proof can't be reused with another one. */
+  startToken: string;
+};
+
+const encoder = new TextEncoder();
+
+async function sha256(input: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(input)));
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+/** Digest of everything the proof vouches for; hashed once, then reused for every nonce. */
+const challengeFor = async ({ name, email, message, startToken }: ProofOfWorkInput) =>
+  toHex(await sha256(JSON.stringify(["contact-v2", name, email, message, startToken])));
+
+export async function solveProofOfWork(input: ProofOfWorkInput, difficulty = POW_DIFFICULTY): Promise<number> {
+  const challenge = await challengeFor(input);
+  for (let nonce = 0; ; nonce++) {
+    if (leadingZeroBits(await sha256(`${challenge}:${nonce}`)) >= difficulty) {
+      return nonce;
+    }
+  }
+}
+
+export async function verifyProofOfWork(
+  input: ProofOfWorkInput,
+  nonce: number,
+  difficulty = POW_DIFFICULTY
+): Promise<boolean> {
+  if (!Number.isSafeInteger(nonce) || nonce < 0) return false;
+  const challenge = await challengeFor(input);
+  return leadingZeroBits(await sha256(`${challenge}:${nonce}`)) >= difficulty;
+}
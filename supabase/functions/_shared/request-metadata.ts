@@ -0,0 +1,90 @@
+// Where a contact message came from: the form sends the visit's referrer and
+// UTM parameters, submit-contact adds the browser family and a hash of the IP.
+// Only coarse or pseudonymous values are kept (see the migration that adds
+// them). Keep this module free of Deno and DOM globals.
+import { z } from "zod";
+
+export const UTM_PARAMS = ["utm_source", "utm_medium", "utm_campaign", "utm_term", "utm_content"] as const;
+
+export type UtmParam = (typeof UTM_PARAMS)[number];
+
+export type UtmParams = Partial<Record<UtmParam, string>>;
+
+const UTM_MAX_LENGTH = 100;
+const REFERRER_MAX_LENGTH = 500;
+
+/** UTM parameters present in a query string, e.g. `location.search`. */
+export function readUtmParams(search: string): UtmParams {
+  const params = new URLSearchParams(search);
+  const utm: UtmParams = {};
+  for (const param of UTM_PARAMS) {
+    const value = params.get(param)?.trim();
+    if (value) utm[param] = value.slice(0, UTM_MAX_LENGTH);
+  }
+  return utm;
+}
+
+/** Origin and path of a web referrer; the query string and fragment can carry personal data. */
+export function sanitizeReferrer(referrer: string | undefined): string | null {
+  if (!referrer) return null;
+  try {
+    const url = new URL(referrer);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return `${url.origin}${url.pathname}`.slice(0, REFERRER_MAX_LENGTH);
+  } catch {
+    return null;
+  }
+}
+
+const utmValue = z.string().trim().max(UTM_MAX_LENGTH).optional().catch(undefined);
+
+/**
+ * Sent by the form as `metadata`. Lenient: a malformed value is dropped
+ * rather than failing the submission.
+ */
+export const contactMetadataSchema = z
+  .object({
+    referrer: z.string().max(REFERRER_MAX_LENGTH).optional().catch(undefined),
+    utm: z
+      .object({
+        utm_source: utmValue,
+        utm_medium: utmValue,
+        utm_campaign: utmValue,
+        utm_term: utmValue,
+        utm_content: utmValue,
+      } satisfies Record<UtmParam, typeof utmValue>)
+      .catch({}),
+  })
+  .catch({ utm: {} });
+
+export type ContactMetadata = z.infer<typeof contactMetadataSchema>;
+
+// Checked in order: several browsers also claim to be Chrome or Safari
+const BROWSERS: [RegExp, string][] = [
+  [/bot|crawler|spider|curl|wget|python-requests|httpclient|headless/i, "Bot"],
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/** e.g. "Chrome on Android"; null when the user agent is missing or unrecognised. */
+export function userAgentFamily(userAgent: string | null | undefined): string | null {
+  if (!userAgent) return null;
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser === "Bot") return browser;
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser) return system ?? null;
+  return system ? `${browser} on ${system}` : browser;
+}
@@ -0,0 +1,187 @@
+// Spam scoring for messages that got past the honeypot, fill-time and
+// proof-of-work checks. A few heuristics plus a naive-Bayes classifier trained
+// on the messages the owner marks as spam or not spam in the admin inbox
+// (counts live in contact_spam_tokens). Pure functions, so the score can be
+// reasoned about and tested without a database.
+import { isRoleEmail, suggestEmail } from "./email-domains.ts";
+
+/** At or above this, a message is quarantined: stored, but no emails go out. */
+export const SPAM_QUARANTINE_THRESHOLD = 0.8;
+
+/** The classifier stays quiet until the owner has marked at least this many of each. */
+export const MIN_TRAINING_MESSAGES = 5;
+
+export type SpamSignalName =
+  | "links"
+  | "repeated_characters"
+  | "spam_phrases"
+  | "language_mismatch"
+  | "email_typo"
+  | "role_address"
+  | "classifier";
+
+export type SpamSignal = {
+  name: SpamSignalName;
+  /** 0-1: how strongly this alone points to spam. */
+  weight: number;
+  detail: string;
+};
+
+/** Owner-facing names for the admin inbox. */
+export const SPAM_SIGNAL_LABELS: Record<SpamSignalName, string> = {
+  links: "Links",
+  repeated_characters: "Repeated characters",
+  spam_phrases: "Spam phrases",
+  language_mismatch: "Language",
+  email_typo: "Possible email typo",
+  role_address: "Shared mailbox",
+  classifier: "Trained filter",
+};
+
+/** Token counts for the words in one message, as returned by contact_spam_model(). */
+export type SpamModel = {
+  spamMessages: number;
+  hamMessages: number;
+  tokens: Record<string, [spam: number, ham: number]>;
+};
+
+export type SpamScore = {
+  score: number;
+  signals: SpamSignal[];
+  /** Distinct words of the message; stored so marking it later can train the classifier. */
+  tokens: string[];
+};
+
+const MAX_TOKENS = 300;
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi;
+
+/** Lowercased distinct words of 2-24 letters/digits, plus a marker per link. */
+export function tokenize(text: string): string[] {
+  const links = text.match(LINK_PATTERN) ?? [];
+  const words = text
+    .normalize("NFKC")
+    .replace(LINK_PATTERN, " ")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 2 && word.length <= 24);
+  const linkHosts = links.map((link) => `link:${link.replace(/^(https?:\/\/)?(www\.)?/i, "").split(/[/?#]/)[0].toLowerCase()}`);
+  return [...new Set([...words, ...linkHosts])].slice(0, MAX_TOKENS);
+}
+
+// English and Indonesian, lowercase. Phrases rather than single words, so a
+// recruiter mentioning "marketing" doesn't trip them.
+const SPAM_PHRASES = [
+  "seo services",
+  "first page of google",
+  "rank your website",
+  "increase your traffic",
+  "web traffic",
+  "backlinks",
+  "guest post",
+  "link building",
+  "buy followers",
+  "crypto investment",
+  "bitcoin",
+  "forex signals",
+  "guaranteed profit",
+  "casino",
+  "viagra",
+  "loan offer",
+  "limited time offer",
+  "click here",
+  "dear sir/madam",
+  "judi online",
+  "slot gacor",
+  "pinjaman online",
+  "jasa seo",
+];
+
+/** Share of letters in a non-Latin script; the site and its visitors write in English or Indonesian. */
+function nonLatinShare(text: string): number {
+  const letters = text.match(/\p{L}/gu) ?? [];
+  if (letters.length === 0) return 0;
+  const latin = letters.filter((letter) => /\p{Script=Latin}/u.test(letter)).length;
+  return 1 - latin / letters.length;
+}
+
+type Submission = { name: string; email: string; message: string };
+
+export function heuristicSignals({ name, email, message }: Submission): SpamSignal[] {
+  const signals: SpamSignal[] = [];
+
+  const links = message.match(LINK_PATTERN)?.length ?? 0;
+  if (links > 0) {
+    signals.push({ name: "links", weight: links >= 3 ? 0.6 : links === 2 ? 0.3 : 0.1, detail: `${links} link(s)` });
+  }
+
+  const repeated = message.match(/(\S)\1{5,}/gu);
+  if (repeated) {
+    signals.push({ name: "repeated_characters", weight: 0.3, detail: repeated.slice(0, 3).join(", ") });
+  }
+
+  const lower = message.toLowerCase();
+  const phrases = SPAM_PHRASES.filter((phrase) => lower.includes(phrase));
+  if (phrases.length > 0) {
+    signals.push({ name: "spam_phrases", weight: Math.min(0.25 * phrases.length, 0.75), detail: phrases.join(", ") });
+  }
+
+  // Mostly another script, or a name written in a different script from the message
+  const messageShare = nonLatinShare(message);
+  const nameShare = nonLatinShare(name);
+  if (messageShare > 0.5) {
+    signals.push({ name: "language_mismatch", weight: 0.4, detail: "message is not in English or Indonesian" });
+  } else if (nameShare > 0.5) {
+    signals.push({ name: "language_mismatch", weight: 0.2, detail: "name and message are in different scripts" });
+  }
+
+  // Not spam as such, but a reply to a mistyped domain bounces and bots favour info@ and the like
+  const correction = suggestEmail(email);
+  if (correction) {
+    signals.push({ name: "email_typo", weight: 0.1, detail: `probably ${correction}` });
+  }
+  if (isRoleEmail(email)) {
+    signals.push({ name: "role_address", weight: 0.15, detail: email.split("@")[0] });
+  }
+
+  return signals;
+}
+
+/** Probability that the tokens are spam, or null while the classifier is untrained. Equal priors. */
+export function classify(tokens: string[], model: SpamModel): number | null {
+  const { spamMessages, hamMessages } = model;
+  if (spamMessages < MIN_TRAINING_MESSAGES || hamMessages < MIN_TRAINING_MESSAGES) return null;
+
+  let logOdds = 0;
+  for (const token of tokens) {
+    const counts = model.tokens[token];
+    if (!counts) continue;
+    // Laplace smoothing keeps a word seen only in spam from being decisive on its own
+    const inSpam = (counts[0] + 1) / (spamMessages + 2);
+    const inHam = (counts[1] + 1) / (hamMessages + 2);
+    logOdds += Math.log(inSpam / inHam);
+  }
+  logOdds = Math.max(-50, Math.min(50, logOdds));
+  return 1 / (1 + Math.exp(-logOdds));
+}
+
+/**
+ * Combines the signals as independent evidence: 1 - Π(1 - weight). The
+ * classifier only adds to the score when it leans towards spam.
+ */
+export function scoreSubmission(submission: Submission, model: SpamModel | null): SpamScore {
+  const tokens = tokenize(submission.message);
+  const signals = heuristicSignals(submission);
+
+  const probability = model ? classify(tokens, model) : null;
+  if (probability !== null && probability > 0.5) {
+    signals.push({
+      name: "classifier",
+      weight: 2 * probability - 1,
+      detail: `${Math.round(probability * 100)}% likely spam`,
+    });
+  }
+
+  const score = 1 - signals.reduce((clean, { weight }) => clean * (1 - weight), 1);
+  return { score: Math.round(score * 1000) / 1000, signals, tokens };
+}
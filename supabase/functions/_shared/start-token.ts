@@ -0,0 +1,45 @@
+// Start tokens for the contact form's minimum fill time. submit-contact hands
+// one out when the visitor first touches the form and reads it back on submit,
+// so the time spent is measured on the server's clock instead of being
+// reported by the browser. A token is its issue time plus an HMAC of it; it is
+// saved with the draft, so a restored draft keeps its original start. Uses only
+// Web Crypto; keep this module free of Deno and DOM globals.
+
+/** Older tokens are refused; comfortably longer than a saved draft lives. */
+export const START_TOKEN_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+async function sign(secret: string, issuedAt: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`contact-start:${issuedAt}`));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Compares without returning early, so timing doesn't reveal how much of a forged signature was right. */
+function sameText(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return difference === 0;
+}
+
+export async function issueStartToken(secret: string, now = Date.now()): Promise<string> {
+  return `${now}.${await sign(secret, now)}`;
+}
+
+/** Milliseconds since the token was issued, or null if it is forged, malformed or too old. */
+export async function startTokenAge(secret: string, token: string, now = Date.now()): Promise<number | null> {
+  const match = /^(\d{1,15})\.([0-9a-f]{64})$/.exec(token);
+  if (!match) return null;
+  const issuedAt = Number(match[1]);
+  if (!sameText(match[2], await sign(secret, issuedAt))) return null;
+  const age = now - issuedAt;
+  return age >= 0 && age <= START_TOKEN_MAX_AGE_MS ? age : null;
+}
@@ -0,0 +1,117 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { jsonResponse, withCors } from "../_shared/http.ts";
+import { OWNER_EMAIL, sendEmail } from "../_shared/mail.ts";
+import { contactReply, renderEmail } from "../_shared/email/templates.ts";
+
+const MAX_REPLY_LENGTH = 10000;
+
+function validateReply(body: string): { valid: boolean; error?: string } {
+  const trimmed = body?.trim();
+  if (!trimmed || trimmed.length === 0) return { valid: false, error: "Reply is required" };
+  if (trimmed.length > MAX_REPLY_LENGTH) return { valid: false, error: `Reply must be less than ${MAX_REPLY_LENGTH} characters` };
+  return { valid: true };
+}
+
+Deno.serve(withCors(async (req) => {
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Check the caller with their own JWT so is_site_owner() sees auth.uid()
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: isOwner, error: ownerError } = await userClient.rpc("is_site_owner");
+    if (ownerError || !isOwner) {
+      return jsonResponse({ error: "Forbidden" }, 403);
+    }
+
+    const { messageId, body } = await req.json();
+
+    if (typeof messageId !== "string" || !messageId) {
+      return jsonResponse({ error: "messageId is required" }, 400);
+    }
+
+    const replyValidation = validateReply(body);
+    if (!replyValidation.valid) {
+      return jsonResponse({ error: replyValidation.error }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: original, error: messageError } = await supabase
+      .from("contact_messages")
+      .select("id, name, email, message, status, created_at")
+      .eq("id", messageId)
+      .maybeSingle();
+
+    if (messageError) {
+      console.error("Database select error:", messageError.message);
+      return jsonResponse({ error: "Failed to load message. Please try again." }, 500);
+    }
+    if (!original) {
+      return jsonResponse({ error: "Message not found" }, 404);
+    }
+
+    const replyText = body.trim();
+    const sentOn = new Date(original.created_at).toUTCString();
+
+    const result = await sendEmail({
+      to: [original.email],
+      ...renderEmail(contactReply, {
+        reply: replyText,
+        originalName: original.name,
+        originalMessage: original.message,
+        sentOn,
+      }),
+      replyTo: OWNER_EMAIL,
+    });
+
+    if (!result.sent) {
+      console.error("Failed to send reply:", result.error);
+      return jsonResponse({ error: "Failed to send reply. Please try again." }, 502);
+    }
+
+    const { data: reply, error: insertError } = await supabase
+      .from("contact_replies")
+      .insert({
+        message_id: original.id,
+        body: replyText,
+        sent_by: user.id,
+        provider_message_id: result.id,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      // The email already went out; surface the problem but don't ask for a resend.
+      console.error("Database insert error:", insertError.message);
+      return jsonResponse({ error: "Reply sent, but it could not be saved to the thread." }, 500);
+    }
+
+    if (original.status === "unread" || original.status === "read") {
+      const { error: statusError } = await supabase
+        .from("contact_messages")
+        .update({ status: "replied" })
+        .eq("id", original.id);
+      if (statusError) console.error("Failed to mark message as replied:", statusError.message);
+    }
+
+    console.log(`Reply sent for message ${original.id}`);
+
+    return jsonResponse({ success: true, reply });
+  } catch (error) {
+    console.error("Edge function error:", error instanceof Error ? error.message : error);
+    return jsonResponse({ error: "An unexpected error occurred. Please try again." }, 500);
+  }
+}));
@@ -1,175 +1,475 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
-};
-
-// Rate limiting: max 5 submissions per hour per IP
-const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
-const MAX_SUBMISSIONS_PER_WINDOW = 5;
-const rateLimitStore = new Map<string, { count: number; windowStart: number }>();
-
-function isRateLimited(ip: string): boolean {
-  const now = Date.now();
-  const record = rateLimitStore.get(ip);
-  if (!record || now - record.windowStart > RATE_LIMIT_WINDOW_MS) {
-    rateLimitStore.set(ip, { count: 1, windowStart: now });
-    return false;
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { withCors } from "../_shared/http.ts";
+import { OWNER_EMAIL, sendEmail } from "../_shared/mail.ts";
+import { contactMessages, resolveContactLocale } from "../_shared/contact-i18n.ts";
+import { contactReference } from "../_shared/contact-reference.ts";
+import {
+  ATTACHMENT_BUCKET,
+  attachmentPath,
+  type AttachmentMeta,
+  type AttachmentUpload,
+} from "../_shared/attachments.ts";
+import {
+  HONEYPOT_FIELD,
+  MIN_FILL_TIME_MS,
+  contactFieldErrors,
+  contactGuardSchema,
+  createContactSchema,
+  type ContactSchemaMessages,
+  type ContactSubmission,
+  type SpamCheckReason,
+} from "../_shared/contact-schema.ts";
+import { verifyProofOfWork } from "../_shared/proof-of-work.ts";
+import { issueStartToken, startTokenAge } from "../_shared/start-token.ts";
+import { contactMetadataSchema, sanitizeReferrer, userAgentFamily } from "../_shared/request-metadata.ts";
+import {
+  SPAM_QUARANTINE_THRESHOLD,
+  scoreSubmission,
+  tokenize,
+  type SpamModel,
+} from "../_shared/spam-score.ts";
+import { acknowledgementConfig } from "../_shared/email/acknowledgement.config.ts";
+import { contactAcknowledgement, contactNotification, renderEmail } from "../_shared/email/templates.ts";
+
+// Rate limiting: sliding one-hour window, max 5 submissions per IP and 3 per
+// email address. Counters live in Postgres so every isolate sees the same ones,
+// keyed by HMACs of the IP and address so neither is stored in the clear.
+const RATE_LIMIT_WINDOW_SECONDS = 60 * 60;
+const MAX_SUBMISSIONS_PER_IP = 5;
+const MAX_SUBMISSIONS_PER_EMAIL = 3;
+
+/** Returns 0 when the submission may go ahead, otherwise the seconds to wait. */
+async function consumeRateLimit(supabase: SupabaseClient, ip: string, email: string): Promise<number> {
+  const { data, error } = await supabase.rpc("consume_contact_rate_limit", {
+    buckets: [`ip:${await hmacHex(RATE_LIMIT_KEY, ip)}`, `email:${await hmacHex(RATE_LIMIT_KEY, email)}`],
+    max_hits: [MAX_SUBMISSIONS_PER_IP, MAX_SUBMISSIONS_PER_EMAIL],
+    window_seconds: RATE_LIMIT_WINDOW_SECONDS,
+  });
+  if (error) {
+    // Don't turn a limiter outage into a contact form outage.
+    console.error("Rate limit check failed:", error.message);
+    return 0;
+  }
+  return data ?? 0;
+}
+
+function rateLimitedResponse(t: ContactSchemaMessages, retryAfter: number) {
+  return new Response(
+    JSON.stringify({ error: t.rateLimited, retryAfter }),
+    {
+      status: 429,
+      headers: { "Content-Type": "application/json", "Retry-After": String(retryAfter) },
+    }
+  );
+}
+
+// Signs the form's start tokens. The service role key is secret and always set,
+// so no extra configuration is needed.
+const START_TOKEN_SECRET = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+/** Runs the honeypot, fill-time and proof-of-work checks; returns why the submission failed, if it did. */
+async function checkSpamSignals(body: unknown, submission: ContactSubmission): Promise<SpamCheckReason | null> {
+  const guard = contactGuardSchema.safeParse(body);
+  if (!guard.success) return "invalid_proof";
+  if (guard.data[HONEYPOT_FIELD]) return "honeypot";
+
+  const { startToken, proof } = guard.data;
+  const elapsedMs = await startTokenAge(START_TOKEN_SECRET, startToken);
+  if (elapsedMs === null) return "invalid_proof";
+  if (elapsedMs < MIN_FILL_TIME_MS) return "too_fast";
+  if (!(await verifyProofOfWork({ ...submission, startToken }, proof.nonce))) return "invalid_proof";
+  return null;
+}
+
+/** ID of the active blocklist entry matching the sender's IP (or its hash), email or domain, if any. */
+async function findBlocklistEntry(
+  supabase: SupabaseClient,
+  ip: string,
+  ipHash: string | null,
+  email: string
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc("contact_blocklist_match", { ip, ip_hash: ipHash, email });
+  if (error) {
+    // Like the rate limiter, fail open rather than take the form down
+    console.error("Blocklist check failed:", error.message);
+    return null;
+  }
+  return data;
+}
+
+async function recordSpamAttempt(
+  supabase: SupabaseClient,
+  reason: SpamCheckReason,
+  submission: ContactSubmission,
+  ipHash: string | null,
+  body: Record<string, unknown> | null,
+  extraDetails: Record<string, unknown> = {}
+) {
+  const { error } = await supabase.from("contact_spam_attempts").insert({
+    reason,
+    name: submission.name,
+    email: submission.email,
+    message: submission.message,
+    ip_hash: ipHash,
+    details: { [HONEYPOT_FIELD]: body?.[HONEYPOT_FIELD], startToken: body?.startToken, proof: body?.proof, ...extraDetails },
+  });
+  if (error) {
+    console.error("Failed to record spam attempt:", error.message);
+  }
+}
+
+/** Classifier counts for the message's words; null (heuristics only) if they can't be loaded. */
+async function loadSpamModel(supabase: SupabaseClient, tokens: string[]): Promise<SpamModel | null> {
+  const { data, error } = await supabase.rpc("contact_spam_model", { tokens });
+  if (error) {
+    console.error("Spam model lookup failed:", error.message);
+    return null;
   }
-  if (record.count >= MAX_SUBMISSIONS_PER_WINDOW) return true;
-  record.count++;
-  return false;
+  const model = data as { spam_messages: number; ham_messages: number; tokens: SpamModel["tokens"] };
+  return { spamMessages: model.spam_messages, hamMessages: model.ham_messages, tokens: model.tokens };
 }
 
-function validateName(name: string): { valid: boolean; error?: string } {
-  const trimmed = name?.trim();
-  if (!trimmed || trimmed.length === 0) return { valid: false, error: "Name is required" };
-  if (trimmed.length < 2) return { valid: false, error: "Name must be at least 2 characters" };
-  if (trimmed.length > 100) return { valid: false, error: "Name must be less than 100 characters" };
-  return { valid: true };
+/** null when the URL couldn't be issued. No upsert: a stored file can never be replaced through one. */
+async function signUpload(supabase: SupabaseClient, path: string): Promise<AttachmentUpload | null> {
+  const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).createSignedUploadUrl(path, { upsert: false });
+  if (error) {
+    console.error("Failed to create upload URL:", error.message);
+    return null;
+  }
+  return { path: data.path, token: data.token };
 }
 
-function validateEmail(email: string): { valid: boolean; error?: string } {
-  const trimmed = email?.trim().toLowerCase();
-  if (!trimmed || trimmed.length === 0) return { valid: false, error: "Email is required" };
-  if (trimmed.length > 255) return { valid: false, error: "Email must be less than 255 characters" };
-  const emailRegex = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
-  if (!emailRegex.test(trimmed)) return { valid: false, error: "Please enter a valid email address" };
-  return { valid: true };
+/**
+ * Records the message's attachments and issues a signed upload URL for each, in
+ * the same order; null where one couldn't be issued. The browser uploads the
+ * files itself, so they never pass through this function.
+ */
+async function prepareAttachmentUploads(
+  supabase: SupabaseClient,
+  messageId: string,
+  attachments: AttachmentMeta[]
+): Promise<(AttachmentUpload | null)[]> {
+  if (attachments.length === 0) return [];
+
+  const rows = attachments.map(({ name, type, size }, position) => {
+    const id = crypto.randomUUID();
+    return {
+      id,
+      message_id: messageId,
+      storage_path: attachmentPath(messageId, id),
+      file_name: name,
+      content_type: type,
+      size_bytes: size,
+      position,
+    };
+  });
+  const { error } = await supabase.from("contact_attachments").insert(rows);
+  if (error) {
+    console.error("Failed to record attachments:", error.message);
+    return attachments.map(() => null);
+  }
+
+  return Promise.all(rows.map(({ storage_path }) => signUpload(supabase, storage_path)));
+}
+
+// Key for the IP hashes stored with each message. Without it no hash is
+// stored: an unkeyed hash of an IPv4 address is easy to reverse.
+const IP_HASH_SALT = Deno.env.get("IP_HASH_SALT");
+
+// Keys the rate limit buckets. Falls back to the service role key, which is
+// always set, so the limiter never stores a raw IP even without a salt.
+const RATE_LIMIT_KEY = IP_HASH_SALT || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+async function hmacHex(secret: string, value: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const digest = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
 }
 
-function validateMessage(message: string): { valid: boolean; error?: string } {
-  const trimmed = message?.trim();
-  if (!trimmed || trimmed.length === 0) return { valid: false, error: "Message is required" };
-  if (trimmed.length < 10) return { valid: false, error: "Message must be at least 10 characters" };
-  if (trimmed.length > 5000) return { valid: false, error: "Message must be less than 5000 characters" };
-  return { valid: true };
+/** HMAC-SHA-256 of the client IP, so repeat senders can be spotted without keeping the address. */
+async function hashIp(ip: string): Promise<string | null> {
+  if (!IP_HASH_SALT || ip === "unknown") return null;
+  return hmacHex(IP_HASH_SALT, ip);
+}
+
+// The acknowledgement greets the sender by name, so a URL there would be mailed out too
+const LINK_IN_NAME_PATTERN = /https?:\/\/|www\.|\.[a-z]{2,}\//i;
+
+// Duplicates: the same idempotency key always maps to the first message sent
+// with it, and the same (normalized) text from the same address within this
+// window is treated as a resend.
+const DUPLICATE_WINDOW_SECONDS = 10 * 60;
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+/** Hash of the message with case, punctuation and spacing ignored. */
+async function contentFingerprint(message: string): Promise<string> {
+  const normalized = message
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The message this request repeats, if any. `sameKey` is true only for a
+ * retry of the same draft; a fingerprint match may come from anyone who knows
+ * the address and text.
+ */
+async function findOriginalMessage(
+  supabase: SupabaseClient,
+  idempotencyKey: string | null,
+  email: string,
+  fingerprint: string
+): Promise<{ id: string; sameKey: boolean } | null> {
+  if (idempotencyKey) {
+    const { data, error } = await supabase
+      .from("contact_messages")
+      .select("id")
+      .eq("idempotency_key", idempotencyKey)
+      .maybeSingle();
+    if (error) console.error("Idempotency lookup failed:", error.message);
+    if (data) return { id: data.id, sameKey: true };
+  }
+
+  const { data, error } = await supabase
+    .from("contact_messages")
+    .select("id")
+    .eq("email", email)
+    .eq("content_fingerprint", fingerprint)
+    .gte("created_at", new Date(Date.now() - DUPLICATE_WINDOW_SECONDS * 1000).toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) console.error("Duplicate lookup failed:", error.message);
+  return data ? { id: data.id, sameKey: false } : null;
 }
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
+/**
+ * The original result for a repeated request: same reference and no new
+ * emails. A retry of the same draft also gets upload URLs for the files that
+ * never arrived; a fingerprint match gets none, so a resend can't touch
+ * someone else's files.
+ */
+async function replayOriginal(
+  supabase: SupabaseClient,
+  original: { id: string; sameKey: boolean },
+  t: ContactSchemaMessages
+) {
+  let uploads: (AttachmentUpload | null)[] = [];
+  if (original.sameKey) {
+    const { data: attachments, error } = await supabase
+      .from("contact_attachments")
+      .select("storage_path, uploaded_at")
+      .eq("message_id", original.id)
+      .order("position");
+    if (error) console.error("Failed to load attachments:", error.message);
+    uploads = await Promise.all(
+      (attachments ?? []).map(({ storage_path, uploaded_at }) =>
+        uploaded_at ? { path: storage_path, uploaded: true as const } : signUpload(supabase, storage_path)
+      )
+    );
   }
 
+  return new Response(
+    JSON.stringify({ success: true, message: t.success, reference: contactReference(original.id), uploads, duplicate: true }),
+    { status: 200, headers: { "Content-Type": "application/json" } }
+  );
+}
+
+Deno.serve(withCors(async (req) => {
+  // Error strings (and the acknowledgement email) follow the visitor's language,
+  // sent by the form as Accept-Language
+  const locale = resolveContactLocale(req.headers.get("accept-language"));
+  const t = contactMessages[locale];
+
   try {
+    // Start token for the fill-time check, requested when the visitor first touches the form
+    if (req.method === "GET") {
+      return new Response(
+        JSON.stringify({ startToken: await issueStartToken(START_TOKEN_SECRET) }),
+        { status: 200, headers: { "Content-Type": "application/json", "Cache-Control": "no-store" } }
+      );
+    }
+
     if (req.method !== "POST") {
       return new Response(
-        JSON.stringify({ error: "Method not allowed" }),
-        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: t.methodNotAllowed }),
+        { status: 405, headers: { "Content-Type": "application/json" } }
       );
     }
 
     const clientIP = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
                      req.headers.get("cf-connecting-ip") || "unknown";
 
-    if (isRateLimited(clientIP)) {
-      console.log(`Rate limit exceeded for IP: ${clientIP}`);
+    // The raw address is only used for blocklist ranges; it is never stored or logged
+    const ipHash = await hashIp(clientIP);
+
+    const body = await req.json();
+    const parsed = createContactSchema(t).safeParse(body);
+    if (!parsed.success) {
+      const fieldErrors = contactFieldErrors(parsed.error);
       return new Response(
-        JSON.stringify({ error: "Too many submissions. Please try again later." }),
-        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: Object.values(fieldErrors)[0], fieldErrors }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
       );
     }
+    const { name, email, message, inquiry, attachments } = parsed.data;
 
-    const body = await req.json();
-    const { name, email, message } = body;
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const nameValidation = validateName(name);
-    if (!nameValidation.valid) {
-      return new Response(JSON.stringify({ error: nameValidation.error }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    const blocklistEntry = await findBlocklistEntry(supabase, clientIP, ipHash, email);
+    const spamReason = blocklistEntry ? "blocked" : await checkSpamSignals(body, parsed.data);
+    if (spamReason) {
+      // Rejected attempts count against the same limit as real submissions, so
+      // a script (or a blocked sender) can't add rows to the log faster than a
+      // person could
+      const retryAfter = await consumeRateLimit(supabase, clientIP, email);
+      if (retryAfter > 0) return rateLimitedResponse(t, retryAfter);
+
+      if (blocklistEntry) {
+        console.log(`Blocked sender (blocklist entry ${blocklistEntry})`);
+        await recordSpamAttempt(supabase, spamReason, parsed.data, ipHash, body, { blocklistEntry });
+      } else {
+        console.log(`Spam check "${spamReason}" failed`);
+        await recordSpamAttempt(supabase, spamReason, parsed.data, ipHash, body);
+      }
+      // Blocked senders and bots that fill the honeypot get a normal-looking
+      // success so they don't adapt
+      if (spamReason === "blocked" || spamReason === "honeypot") {
+        return new Response(
+          JSON.stringify({ success: true, message: t.success }),
+          { status: 200, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      return new Response(
+        JSON.stringify({ error: t.verificationFailed }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
     }
 
-    const emailValidation = validateEmail(email);
-    if (!emailValidation.valid) {
-      return new Response(JSON.stringify({ error: emailValidation.error }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    // Repeats get the original result back and don't count against the rate limit
+    const requestedKey = req.headers.get("idempotency-key");
+    const idempotencyKey = requestedKey && IDEMPOTENCY_KEY_PATTERN.test(requestedKey) ? requestedKey : null;
+    const fingerprint = await contentFingerprint(message);
+    const original = await findOriginalMessage(supabase, idempotencyKey, email, fingerprint);
+    if (original) {
+      console.log(`Duplicate submission collapsed into ${original.id}`);
+      return await replayOriginal(supabase, original, t);
     }
 
-    const messageValidation = validateMessage(message);
-    if (!messageValidation.valid) {
-      return new Response(JSON.stringify({ error: messageValidation.error }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    const retryAfter = await consumeRateLimit(supabase, clientIP, email);
+    if (retryAfter > 0) {
+      console.log("Rate limit exceeded");
+      return rateLimitedResponse(t, retryAfter);
     }
 
-    // Save to database
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const spam = scoreSubmission({ name, email, message }, await loadSpamModel(supabase, tokenize(message)));
+    const quarantined = spam.score >= SPAM_QUARANTINE_THRESHOLD;
+    const metadata = contactMetadataSchema.parse(body.metadata);
 
-    const { error: insertError } = await supabase
+    // Save to database
+    const { data: saved, error: insertError } = await supabase
       .from("contact_messages")
       .insert({
-        name: name.trim(),
-        email: email.trim().toLowerCase(),
-        message: message.trim(),
-      });
+        name,
+        email,
+        message,
+        inquiry_type: inquiry.type,
+        inquiry_details: inquiry.details,
+        idempotency_key: idempotencyKey,
+        content_fingerprint: fingerprint,
+        ...(quarantined && { status: "quarantined" as const }),
+        spam_score: spam.score,
+        spam_signals: spam.signals,
+        spam_tokens: spam.tokens,
+        ip_hash: ipHash,
+        user_agent_family: userAgentFamily(req.headers.get("user-agent")),
+        referrer: sanitizeReferrer(metadata.referrer),
+        page_locale: locale,
+        utm: metadata.utm,
+      })
+      .select("id")
+      .single();
+
+    // A concurrent request with the same key got there first
+    if (insertError?.code === "23505" && idempotencyKey) {
+      const original = await findOriginalMessage(supabase, idempotencyKey, email, fingerprint);
+      if (original) return await replayOriginal(supabase, original, t);
+    }
 
     if (insertError) {
       console.error("Database insert error:", insertError.message);
       return new Response(
-        JSON.stringify({ error: "Failed to submit message. Please try again." }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: t.submitFailed }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    // Send email notification via Resend
-    const resendApiKey = Deno.env.get("RESEND_API_KEY");
-    if (resendApiKey) {
-      try {
-        const emailResponse = await fetch("https://api.resend.com/emails", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${resendApiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            from: "Portfolio Contact <onboarding@resend.dev>",
-            to: ["faturrahman3384@gmail.com"],
-            subject: `New Contact Form Message from ${name.trim()}`,
-            html: `
-              <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-                <h2 style="color: #333; border-bottom: 2px solid #6366f1; padding-bottom: 10px;">New Contact Form Submission</h2>
-                <div style="margin: 20px 0;">
-                  <p><strong>Name:</strong> ${name.trim()}</p>
-                  <p><strong>Email:</strong> <a href="mailto:${email.trim().toLowerCase()}">${email.trim().toLowerCase()}</a></p>
-                </div>
-                <div style="background: #f5f5f5; padding: 15px; border-radius: 8px;">
-                  <p><strong>Message:</strong></p>
-                  <p style="white-space: pre-wrap;">${message.trim()}</p>
-                </div>
-                <hr style="margin-top: 30px; border: none; border-top: 1px solid #eee;" />
-                <p style="color: #999; font-size: 12px;">Sent from your portfolio contact form</p>
-              </div>
-            `,
-            reply_to: email.trim().toLowerCase(),
+    const reference = contactReference(saved.id);
+    const uploads = await prepareAttachmentUploads(supabase, saved.id, attachments);
+
+    if (quarantined) {
+      // Held for review in the admin quarantine view: no notification, no acknowledgement
+      console.log(`Message ${reference} quarantined with spam score ${spam.score}`);
+    } else {
+      // Send email notification to the owner
+      const notification = await sendEmail({
+        to: [OWNER_EMAIL],
+        ...renderEmail(contactNotification, { name, email, message, reference, inquiry, attachments }),
+        replyTo: email,
+      });
+
+      if (notification.sent) {
+        console.log("Email notification sent successfully");
+      } else {
+        console.error("Failed to send email notification:", notification.error);
+      }
+
+      // Receipt for the visitor. It quotes their text from the owner's address to
+      // whatever address they typed, so anything with a spam signal (links
+      // included) or a link in the name gets none: it would be a free relay.
+      const trusted = spam.signals.length === 0 && !LINK_IN_NAME_PATTERN.test(name);
+      if (acknowledgementConfig.enabled && !trusted) {
+        console.log(`No acknowledgement for ${reference}: spam signals present`);
+      } else if (acknowledgementConfig.enabled) {
+        const acknowledgement = await sendEmail({
+          to: [email],
+          ...renderEmail(contactAcknowledgement, {
+            name,
+            message,
+            reference,
+            copy: acknowledgementConfig.copy[locale],
+            brandColor: acknowledgementConfig.brandColor,
           }),
+          replyTo: OWNER_EMAIL,
         });
-
-        if (!emailResponse.ok) {
-          const errText = await emailResponse.text();
-          console.error("Resend email error:", errText);
-        } else {
-          await emailResponse.text();
-          console.log("Email notification sent successfully");
+        if (!acknowledgement.sent) {
+          console.error("Failed to send acknowledgement email:", acknowledgement.error);
         }
-      } catch (emailErr) {
-        console.error("Failed to send email notification:", emailErr);
       }
     }
 
-    console.log(`Contact form submitted successfully from IP: ${clientIP}`);
+    console.log(`Contact form submitted successfully: ${reference}`);
 
     return new Response(
-      JSON.stringify({ success: true, message: "Message sent successfully" }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify({ success: true, message: t.success, reference, uploads }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
     );
   } catch (error) {
     console.error("Edge function error:", error.message);
     return new Response(
-      JSON.stringify({ error: "An unexpected error occurred. Please try again." }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify({ error: t.unexpected }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
     );
   }
-});
+}));
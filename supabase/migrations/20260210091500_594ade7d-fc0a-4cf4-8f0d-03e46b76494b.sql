@@ -0,0 +1,132 @@
+-- Portfolio CMS tables. The site reads these through react-query and falls back
+-- to the bundled content in src/content when Supabase is unreachable or empty.
+
+-- Keep updated_at in sync on every UPDATE
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TABLE public.projects (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  image TEXT NOT NULL,
+  technologies TEXT[] NOT NULL DEFAULT '{}',
+  url TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.certificates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  year TEXT NOT NULL CHECK (year ~ '^\d{4}$'),
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.achievements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  year TEXT NOT NULL CHECK (year ~ '^\d{4}$'),
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.skill_categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  category TEXT NOT NULL UNIQUE,
+  items TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.social_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  icon TEXT NOT NULL CHECK (icon IN ('mail', 'linkedin', 'github', 'instagram')),
+  url TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT 'hover:text-primary',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER projects_set_updated_at BEFORE UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+CREATE TRIGGER certificates_set_updated_at BEFORE UPDATE ON public.certificates
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+CREATE TRIGGER achievements_set_updated_at BEFORE UPDATE ON public.achievements
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+CREATE TRIGGER skill_categories_set_updated_at BEFORE UPDATE ON public.skill_categories
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+CREATE TRIGGER social_links_set_updated_at BEFORE UPDATE ON public.social_links
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Content is public: anyone may read, nobody may write through the API
+-- (edit rows from the Supabase dashboard or with the service role).
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.skill_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.social_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Projects are publicly readable" ON public.projects FOR SELECT USING (true);
+CREATE POLICY "Certificates are publicly readable" ON public.certificates FOR SELECT USING (true);
+CREATE POLICY "Achievements are publicly readable" ON public.achievements FOR SELECT USING (true);
+CREATE POLICY "Skill categories are publicly readable" ON public.skill_categories FOR SELECT USING (true);
+CREATE POLICY "Social links are publicly readable" ON public.social_links FOR SELECT USING (true);
+
+-- Seed with the content currently bundled in src/content/portfolio.ts
+INSERT INTO public.projects (id, title, description, image, technologies, url, sort_order) VALUES
+  (1, 'PDLC Glass System with UV Detection', 'Leading the development of UV detection systems and automatic curtains to improve safety and energy efficiency, reducing UV exposure by up to 80% in indoor environments.', 'project-1', ARRAY['C', 'Arduino IDE', 'ML8511 Sensor', 'DHT11', 'Arduino Uno'], NULL, 1),
+  (2, 'Automatic Garbage Collection Ship', '3D casing design in SolidWorks for autonomous garbage collection ship that detects garbage in waters and monitors pollution levels using camera detection.', 'project-2', ARRAY['SolidWorks', '3D Design', 'Environmental Monitoring'], NULL, 2),
+  (3, 'I-Travel Website Information System', 'Comprehensive travel website providing information about tourist attractions, restaurants, accommodations, and travel routes between Kualanamu and Silangit Airports.', 'project-3', ARRAY['HTML', 'CSS', 'JavaScript', 'PHP', 'SQL'], NULL, 3),
+  (4, 'Mesh LoRa on NS3 Simulator', 'Development and simulation of LoRa Mesh networks using NS3 simulator to optimize long-range and energy-efficient communication performance for IoT applications.', 'project-4', ARRAY['NS3', 'Ubuntu', 'LoRa', 'Network Simulation'], NULL, 4),
+  (5, 'Deep Focus', 'A productivity and focus application designed to help users concentrate on their tasks with minimal distractions.', 'project-5', ARRAY['React', 'TypeScript', 'Tailwind CSS'], 'https://deep-focuss.lovable.app', 5),
+  (6, 'Toba Market', 'An e-commerce marketplace platform showcasing products and services from the Toba region.', 'project-6', ARRAY['React', 'TypeScript', 'Tailwind CSS'], 'https://tobamarket.lovable.app', 6);
+
+SELECT setval(pg_get_serial_sequence('public.projects', 'id'), (SELECT max(id) FROM public.projects));
+
+INSERT INTO public.certificates (year, name, sort_order) VALUES
+  ('2026', 'Cisco Internet of Things', 1),
+  ('2026', 'CCNA 200-301 Network Fundamentals', 2),
+  ('2025', 'Accelerate Your Job Search with AI', 3),
+  ('2025', 'Operating Systems and You: Becoming a Power User', 4),
+  ('2025', 'The Bits and Bytes of Computer Networking', 5),
+  ('2025', 'Sertifikat Pencapaian TOEFL ITP', 6),
+  ('2024', 'HCIA-Storage V4.5 Course', 7),
+  ('2024', 'HCIA-IoT V3.0 Course', 8),
+  ('2024', 'HCIA-Datacom V1.0 Course', 9),
+  ('2023', 'HCIA-Cloud Service V3.5 (Indonesian)', 10);
+
+INSERT INTO public.achievements (year, name, sort_order) VALUES
+  ('2024', '3rd place in on-campus CTF competition', 1),
+  ('2024', 'Huawei ICT Competition 2024-2025 National Final', 2),
+  ('2024', 'Participated in KRI (Kontes Robot Indonesia)', 3);
+
+INSERT INTO public.skill_categories (category, items, sort_order) VALUES
+  ('Network Engineering', ARRAY['WAN', 'LAN', 'EIGRP', 'OSPF', 'NAT Configuration', 'Cisco Packet Tracer'], 1),
+  ('Virtualization', ARRAY['Ubuntu Linux', 'Kali Linux', 'VMware', 'VirtualBox', 'CentOS', 'Docker'], 2),
+  ('Internet of Things (IoT)', ARRAY['Sensor Integration', 'MQTT', 'Arduino IDE', 'Proteus'], 3),
+  ('Embedded Systems', ARRAY['Arduino', 'ESP32', 'Microcontroller Programming', 'Proteus'], 4),
+  ('Web Programming', ARRAY['HTML', 'CSS', 'JavaScript', 'Laravel', 'Bootstrap'], 5),
+  ('Cloud Computing', ARRAY['Ansible for Automation', 'VMware'], 6),
+  ('Mechanical Design', ARRAY['SolidWorks for Product Modeling', 'Robotics'], 7);
+
+INSERT INTO public.social_links (name, icon, url, color, sort_order) VALUES
+  ('Email', 'mail', 'mailto:faturrahman3384@gmail.com', 'hover:text-red-400', 1),
+  ('LinkedIn', 'linkedin', 'https://www.linkedin.com/in/fatur-rahman-6711b4287', 'hover:text-blue-400', 2),
+  ('GitHub', 'github', 'https://github.com/Faturrahman080402', 'hover:text-gray-400', 3),
+  ('Instagram', 'instagram', 'https://www.instagram.com/ftrachman14/?hl=en', 'hover:text-pink-400', 4);
@@ -0,0 +1,36 @@
+-- Admin inbox: only accounts listed in site_owners may read contact messages.
+-- After signing up through /admin, register the owner once from the SQL editor:
+--   INSERT INTO public.site_owners (user_id)
+--   SELECT id FROM auth.users WHERE email = 'faturrahman3384@gmail.com';
+CREATE TABLE public.site_owners (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.site_owners ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can see their own owner record"
+ON public.site_owners
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- SECURITY DEFINER so policies on other tables can call it without
+-- granting read access to site_owners itself.
+CREATE OR REPLACE FUNCTION public.is_site_owner()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.site_owners WHERE user_id = auth.uid());
+$$;
+
+CREATE POLICY "Owner can read contact messages"
+ON public.contact_messages
+FOR SELECT
+TO authenticated
+USING (public.is_site_owner());
+
+CREATE INDEX contact_messages_created_at_idx ON public.contact_messages (created_at DESC);
@@ -0,0 +1,106 @@
+-- Message lifecycle: every contact message moves through a small state machine
+-- so the admin inbox can be worked like a queue.
+CREATE TYPE public.contact_message_status AS ENUM ('unread', 'read', 'replied', 'archived', 'spam');
+
+ALTER TABLE public.contact_messages
+  ADD COLUMN status public.contact_message_status,
+  ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN read_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN replied_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN spam_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill existing rows before making the columns mandatory
+UPDATE public.contact_messages SET status = 'unread', status_changed_at = created_at;
+
+ALTER TABLE public.contact_messages
+  ALTER COLUMN status SET DEFAULT 'unread',
+  ALTER COLUMN status SET NOT NULL,
+  ALTER COLUMN status_changed_at SET DEFAULT now(),
+  ALTER COLUMN status_changed_at SET NOT NULL;
+
+CREATE INDEX contact_messages_status_created_at_idx ON public.contact_messages (status, created_at DESC);
+
+-- Allowed transitions. Keep in sync with src/lib/message-status.ts
+CREATE OR REPLACE FUNCTION public.contact_message_transition_allowed(
+  from_status public.contact_message_status,
+  to_status public.contact_message_status
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE from_status
+    WHEN 'unread' THEN to_status IN ('read', 'replied', 'archived', 'spam')
+    WHEN 'read' THEN to_status IN ('unread', 'replied', 'archived', 'spam')
+    WHEN 'replied' THEN to_status IN ('archived', 'spam')
+    WHEN 'archived' THEN to_status IN ('unread', 'read')
+    WHEN 'spam' THEN to_status IN ('unread', 'read')
+    ELSE false
+  END;
+$$;
+
+-- Validates the transition and stamps the matching timestamp, whichever path
+-- (admin RPC, edge function, dashboard) performed the update.
+CREATE OR REPLACE FUNCTION public.contact_messages_on_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.contact_message_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.status_changed_at = now();
+  CASE NEW.status
+    WHEN 'read' THEN NEW.read_at = COALESCE(OLD.read_at, now());
+    WHEN 'replied' THEN NEW.replied_at = now();
+    WHEN 'archived' THEN NEW.archived_at = now();
+    WHEN 'spam' THEN NEW.spam_at = now();
+    ELSE NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER contact_messages_status_change
+BEFORE UPDATE OF status ON public.contact_messages
+FOR EACH ROW EXECUTE FUNCTION public.contact_messages_on_status_change();
+
+-- The owner changes status through this RPC rather than a broad UPDATE policy,
+-- so message content stays immutable from the client.
+CREATE OR REPLACE FUNCTION public.set_contact_message_status(
+  message_id UUID,
+  new_status public.contact_message_status
+)
+RETURNS public.contact_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated public.contact_messages;
+BEGIN
+  IF NOT public.is_site_owner() THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.contact_messages
+  SET status = new_status
+  WHERE id = message_id
+  RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact message % not found', message_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN updated;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Outbound replies sent from the admin inbox, threaded under the original message.
+CREATE TABLE public.contact_replies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.contact_messages (id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 10000),
+  sent_by UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  provider_message_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX contact_replies_message_id_created_at_idx ON public.contact_replies (message_id, created_at);
+
+-- Replies are written by the send-reply edge function (service role) only.
+ALTER TABLE public.contact_replies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owner can read contact replies"
+ON public.contact_replies
+FOR SELECT
+TO authenticated
+USING (public.is_site_owner());
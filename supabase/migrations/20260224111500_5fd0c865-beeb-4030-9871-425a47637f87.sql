@@ -0,0 +1,77 @@
+-- Project case-study pages (/projects/:slug). The slug is stored so URLs stay
+-- stable even if a title is edited later.
+ALTER TABLE public.projects
+  ADD COLUMN slug TEXT,
+  ADD COLUMN case_study JSONB;
+
+UPDATE public.projects SET slug = 'pdlc-glass-system-with-uv-detection', case_study = '{
+  "problem": "Rooms facing direct sunlight let in high levels of UV radiation and heat, and manually adjusting curtains or blinds throughout the day is easy to forget.",
+  "role": "Project lead — responsible for the sensing logic, microcontroller firmware and integration of the PDLC glass and curtain actuators.",
+  "approach": [
+    "Measured UV intensity with an ML8511 sensor and ambient temperature/humidity with a DHT11.",
+    "Wrote C firmware on an Arduino Uno that switches the PDLC film to opaque and closes the motorised curtain when UV crosses a threshold."
+  ],
+  "outcomes": [
+    "Reduced indoor UV exposure by up to 80% in testing.",
+    "Fully automatic operation with no manual input, improving both comfort and energy efficiency."
+  ],
+  "gallery": [
+    "project-1"
+  ]
+}'::jsonb WHERE id = 1;
+
+UPDATE public.projects SET slug = 'automatic-garbage-collection-ship', case_study = '{
+  "problem": "Floating waste in rivers and lakes is tedious and costly to collect by hand, and pollution levels are rarely monitored continuously.",
+  "role": "Mechanical designer — modelled the vessel casing in SolidWorks for the autonomous collection system.",
+  "approach": [
+    "Modelled the vessel casing in SolidWorks to house the electronics and the camera used for garbage detection.",
+    "Shaped the design around the environmental monitoring equipment carried on board."
+  ],
+  "outcomes": [
+    "A complete 3D casing design used by the team''s autonomous ship prototype.",
+    "A platform for camera-based garbage detection and water pollution monitoring."
+  ],
+  "gallery": [
+    "project-2"
+  ]
+}'::jsonb WHERE id = 2;
+
+UPDATE public.projects SET slug = 'i-travel-website-information-system', case_study = '{
+  "problem": "Travellers arriving through Kualanamu or Silangit airports had no single place to find attractions, food, lodging and routes between the two.",
+  "role": "Web developer — built the front end and the PHP/SQL back end of the information system.",
+  "approach": [
+    "Modelled attractions, restaurants, accommodations and routes in a relational SQL database.",
+    "Built server-rendered PHP pages with HTML, CSS and JavaScript for browsing and searching the data.",
+    "Documented the travel routes between Kualanamu and Silangit Airports as a dedicated section."
+  ],
+  "outcomes": [
+    "One website covering attractions, dining, accommodation and airport routes for the region."
+  ],
+  "gallery": [
+    "project-3"
+  ]
+}'::jsonb WHERE id = 3;
+
+UPDATE public.projects SET slug = 'mesh-lora-on-ns3-simulator', case_study = '{
+  "problem": "LoRa offers long range at low power, but star topologies limit coverage; a mesh can extend it at the cost of extra traffic and energy.",
+  "role": "Researcher — built and ran the network simulations and analysed the results.",
+  "approach": [
+    "Set up NS3 on Ubuntu with LoRa modules and implemented a mesh forwarding scenario.",
+    "Simulated LoRa mesh topologies to evaluate range and energy-efficiency trade-offs."
+  ],
+  "outcomes": [
+    "Simulation results describing how mesh LoRa can improve long-range, energy-efficient communication for IoT deployments."
+  ],
+  "gallery": [
+    "project-4"
+  ]
+}'::jsonb WHERE id = 4;
+
+UPDATE public.projects SET slug = 'deep-focus', case_study = NULL WHERE id = 5;
+
+UPDATE public.projects SET slug = 'toba-market', case_study = NULL WHERE id = 6;
+
+ALTER TABLE public.projects
+  ALTER COLUMN slug SET NOT NULL,
+  ADD CONSTRAINT projects_slug_key UNIQUE (slug),
+  ADD CONSTRAINT projects_slug_format CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$');
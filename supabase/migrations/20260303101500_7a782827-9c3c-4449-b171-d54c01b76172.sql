@@ -0,0 +1,76 @@
+-- Sliding-window rate limiting for submit-contact. The edge function used to
+-- count in memory, which reset on every cold start and was not shared between
+-- isolates. Each accepted submission now leaves one row per bucket
+-- (e.g. 'ip:203.0.113.7', 'email:someone@example.com').
+CREATE TABLE public.contact_rate_limit_hits (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  bucket TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX contact_rate_limit_hits_bucket_created_at_idx
+  ON public.contact_rate_limit_hits (bucket, created_at DESC);
+
+-- No policies: only the service role (the edge function) touches this table.
+ALTER TABLE public.contact_rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+-- Checks every bucket against its limit over the last window_seconds. Returns
+-- 0 and records a hit in each bucket when the submission is allowed; otherwise
+-- records nothing and returns the seconds until the tightest bucket frees up.
+CREATE OR REPLACE FUNCTION public.consume_contact_rate_limit(
+  buckets TEXT[],
+  max_hits INTEGER[],
+  window_seconds INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  window_start TIMESTAMP WITH TIME ZONE := now() - make_interval(secs => window_seconds);
+  retry_after INTEGER := 0;
+  blocking_hit TIMESTAMP WITH TIME ZONE;
+  lock_bucket TEXT;
+BEGIN
+  IF array_length(buckets, 1) IS DISTINCT FROM array_length(max_hits, 1) THEN
+    RAISE EXCEPTION 'buckets and max_hits must have the same length' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Serialize concurrent submissions for the same bucket. Locks are taken in a
+  -- fixed order so two requests sharing buckets cannot deadlock.
+  FOR lock_bucket IN SELECT DISTINCT b FROM unnest(buckets) AS b ORDER BY b LOOP
+    PERFORM pg_advisory_xact_lock(hashtextextended(lock_bucket, 0));
+  END LOOP;
+
+  DELETE FROM public.contact_rate_limit_hits
+  WHERE bucket = ANY (buckets) AND created_at <= window_start;
+
+  FOR i IN 1 .. coalesce(array_length(buckets, 1), 0) LOOP
+    -- The max_hits-th most recent hit is the one that has to expire before
+    -- another submission fits in the window.
+    SELECT created_at INTO blocking_hit
+    FROM public.contact_rate_limit_hits
+    WHERE bucket = buckets[i]
+    ORDER BY created_at DESC
+    OFFSET max_hits[i] - 1
+    LIMIT 1;
+
+    IF FOUND THEN
+      retry_after := greatest(
+        retry_after,
+        ceil(extract(EPOCH FROM blocking_hit + make_interval(secs => window_seconds) - now()))::INTEGER,
+        1
+      );
+    END IF;
+  END LOOP;
+
+  IF retry_after = 0 THEN
+    INSERT INTO public.contact_rate_limit_hits (bucket)
+    SELECT unnest(buckets);
+  END IF;
+
+  RETURN retry_after;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_contact_rate_limit(TEXT[], INTEGER[], INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,24 @@
+-- Contact submissions rejected by the spam checks in submit-contact (honeypot,
+-- minimum fill time, proof of work). Kept so false positives can be reviewed
+-- from the admin panel instead of disappearing.
+CREATE TABLE public.contact_spam_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reason TEXT NOT NULL CHECK (reason IN ('honeypot', 'too_fast', 'invalid_proof')),
+  name TEXT,
+  email TEXT,
+  message TEXT,
+  ip TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX contact_spam_attempts_created_at_idx ON public.contact_spam_attempts (created_at DESC);
+
+-- Written by the submit-contact edge function (service role) only.
+ALTER TABLE public.contact_spam_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owner can read contact spam attempts"
+ON public.contact_spam_attempts
+FOR SELECT
+TO authenticated
+USING (public.is_site_owner());
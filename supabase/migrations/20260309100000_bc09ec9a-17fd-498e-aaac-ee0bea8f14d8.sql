@@ -0,0 +1,13 @@
+-- What a contact message is about, picked from a selector on the form, plus the
+-- extra fields each kind asks for (company and role for a job, budget and
+-- timeline for a freelance project...). The field set is defined in
+-- supabase/functions/_shared/inquiry.ts, so details are stored as JSON rather
+-- than one column per field.
+CREATE TYPE public.contact_inquiry_type AS ENUM ('job', 'freelance', 'collaboration', 'general');
+
+ALTER TABLE public.contact_messages
+  ADD COLUMN inquiry_type public.contact_inquiry_type NOT NULL DEFAULT 'general',
+  ADD COLUMN inquiry_details JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(inquiry_details) = 'object');
+
+CREATE INDEX contact_messages_inquiry_type_idx ON public.contact_messages (inquiry_type);
@@ -0,0 +1,71 @@
+-- Optional files sent with a contact message (a job description PDF, a brief...).
+-- submit-contact validates the list, inserts one row per file and hands the
+-- browser a signed upload URL for each; the files land in a private bucket
+-- that only the site owner can read, through the admin inbox.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'contact-attachments',
+  'contact-attachments',
+  false,
+  5242880,
+  ARRAY[
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain',
+    'image/png',
+    'image/jpeg'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.contact_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.contact_messages(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  -- Set when the object shows up in storage; NULL means the visitor's upload never finished.
+  uploaded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX contact_attachments_message_id_idx ON public.contact_attachments (message_id);
+
+-- Written by the submit-contact edge function (service role) only.
+ALTER TABLE public.contact_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owner can read contact attachments"
+ON public.contact_attachments
+FOR SELECT
+TO authenticated
+USING (public.is_site_owner());
+
+-- Uploads go through signed URLs, so nobody needs an INSERT policy on the
+-- bucket; reading (and therefore downloading) is limited to the owner.
+CREATE POLICY "Owner can download contact attachments"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'contact-attachments' AND public.is_site_owner());
+
+CREATE OR REPLACE FUNCTION public.mark_contact_attachment_uploaded()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.contact_attachments
+  SET uploaded_at = now()
+  WHERE storage_path = NEW.name;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER contact_attachment_uploaded
+AFTER INSERT ON storage.objects
+FOR EACH ROW
+WHEN (NEW.bucket_id = 'contact-attachments')
+EXECUTE FUNCTION public.mark_contact_attachment_uploaded();
@@ -0,0 +1,17 @@
+-- Duplicate protection for submit-contact. The form sends one idempotency key
+-- per draft, so double clicks and retries after a network error or a 500 map
+-- to the message already saved instead of inserting it again. The content
+-- fingerprint (a hash of the normalized message) catches resends of the same
+-- text from the same address that arrive with a fresh key.
+ALTER TABLE public.contact_messages
+  ADD COLUMN idempotency_key TEXT UNIQUE,
+  ADD COLUMN content_fingerprint TEXT;
+
+CREATE INDEX contact_messages_email_fingerprint_idx
+  ON public.contact_messages (email, content_fingerprint, created_at DESC)
+  WHERE content_fingerprint IS NOT NULL;
+
+-- Order of the files as sent, so a retried request gets its upload URLs back
+-- in the same order as the browser's file list.
+ALTER TABLE public.contact_attachments
+  ADD COLUMN position SMALLINT NOT NULL DEFAULT 0;
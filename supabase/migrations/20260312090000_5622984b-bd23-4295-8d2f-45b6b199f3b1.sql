@@ -0,0 +1,4 @@
+-- Messages the spam score holds back (see the next migration). A separate
+-- migration because a new enum value can't be used in the transaction that
+-- adds it.
+ALTER TYPE public.contact_message_status ADD VALUE IF NOT EXISTS 'quarantined';
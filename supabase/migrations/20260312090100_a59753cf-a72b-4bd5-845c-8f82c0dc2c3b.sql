@@ -0,0 +1,115 @@
+-- Spam scoring. submit-contact scores every message that passes the bot checks
+-- (heuristics plus a naive-Bayes classifier, see
+-- supabase/functions/_shared/spam-score.ts) and stores high scorers as
+-- 'quarantined': kept for review, but no emails go out.
+--
+-- The classifier learns from the owner: moving a message to spam labels it
+-- spam; rescuing it from spam or quarantine, or replying to it, labels it ham.
+-- Each label change adds (or takes back) the message's words in
+-- contact_spam_tokens.
+ALTER TABLE public.contact_messages
+  ADD COLUMN spam_score REAL,
+  ADD COLUMN spam_signals JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN spam_tokens TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN spam_label TEXT CHECK (spam_label IN ('spam', 'ham'));
+
+CREATE INDEX contact_messages_spam_label_idx ON public.contact_messages (spam_label) WHERE spam_label IS NOT NULL;
+
+CREATE TABLE public.contact_spam_tokens (
+  token TEXT NOT NULL PRIMARY KEY,
+  spam_count INTEGER NOT NULL DEFAULT 0 CHECK (spam_count >= 0),
+  ham_count INTEGER NOT NULL DEFAULT 0 CHECK (ham_count >= 0)
+);
+
+-- Only reached through the functions below.
+ALTER TABLE public.contact_spam_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Allowed transitions. Keep in sync with src/lib/message-status.ts
+CREATE OR REPLACE FUNCTION public.contact_message_transition_allowed(
+  from_status public.contact_message_status,
+  to_status public.contact_message_status
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE from_status
+    WHEN 'unread' THEN to_status IN ('read', 'replied', 'archived', 'spam')
+    WHEN 'read' THEN to_status IN ('unread', 'replied', 'archived', 'spam')
+    WHEN 'replied' THEN to_status IN ('archived', 'spam')
+    WHEN 'archived' THEN to_status IN ('unread', 'read')
+    WHEN 'spam' THEN to_status IN ('unread', 'read')
+    WHEN 'quarantined' THEN to_status IN ('unread', 'read', 'spam')
+    ELSE false
+  END;
+$$;
+
+-- Labels the message from its status change and trains the classifier with it.
+CREATE OR REPLACE FUNCTION public.contact_messages_on_spam_label()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_label TEXT;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  new_label := CASE
+    WHEN NEW.status = 'spam' THEN 'spam'
+    WHEN OLD.status IN ('spam', 'quarantined') OR NEW.status = 'replied' THEN 'ham'
+    ELSE OLD.spam_label
+  END;
+
+  IF new_label IS NOT DISTINCT FROM OLD.spam_label THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.spam_label IS NOT NULL THEN
+    UPDATE public.contact_spam_tokens
+    SET spam_count = greatest(spam_count - (OLD.spam_label = 'spam')::INTEGER, 0),
+        ham_count = greatest(ham_count - (OLD.spam_label = 'ham')::INTEGER, 0)
+    WHERE token = ANY (OLD.spam_tokens);
+  END IF;
+
+  INSERT INTO public.contact_spam_tokens AS t (token, spam_count, ham_count)
+  SELECT DISTINCT token, (new_label = 'spam')::INTEGER, (new_label = 'ham')::INTEGER
+  FROM unnest(NEW.spam_tokens) AS token
+  ON CONFLICT (token) DO UPDATE
+  SET spam_count = t.spam_count + excluded.spam_count,
+      ham_count = t.ham_count + excluded.ham_count;
+
+  NEW.spam_label := new_label;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER contact_messages_spam_label
+BEFORE UPDATE OF status ON public.contact_messages
+FOR EACH ROW EXECUTE FUNCTION public.contact_messages_on_spam_label();
+
+-- What the classifier needs to score one message: how many messages carry
+-- each label, and the counts for the message's own words.
+CREATE OR REPLACE FUNCTION public.contact_spam_model(tokens TEXT[])
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'spam_messages', (SELECT count(*) FROM public.contact_messages WHERE spam_label = 'spam'),
+    'ham_messages', (SELECT count(*) FROM public.contact_messages WHERE spam_label = 'ham'),
+    'tokens', COALESCE(
+      (
+        SELECT jsonb_object_agg(token, jsonb_build_array(spam_count, ham_count))
+        FROM public.contact_spam_tokens
+        WHERE token = ANY (contact_spam_model.tokens)
+      ),
+      '{}'::jsonb
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.contact_spam_model(TEXT[]) FROM PUBLIC, anon, authenticated;
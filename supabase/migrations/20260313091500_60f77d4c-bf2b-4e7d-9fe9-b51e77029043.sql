@@ -0,0 +1,81 @@
+-- Senders the owner has blocked from the contact form: an IP address or CIDR
+-- range, an exact email address, or an email domain (subdomains included).
+-- Entries can expire. submit-contact checks every submission against the
+-- active entries and logs matches to contact_spam_attempts as 'blocked'.
+CREATE TYPE public.blocklist_kind AS ENUM ('ip', 'email', 'domain');
+
+CREATE TABLE public.blocklist (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind public.blocklist_kind NOT NULL,
+  value TEXT NOT NULL,
+  reason TEXT,
+  -- The message the sender was blocked from, if any
+  source_message_id UUID REFERENCES public.contact_messages(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (kind, value),
+  CHECK (value = lower(value)),
+  -- Rejects anything that isn't a valid address or range
+  CHECK (kind <> 'ip' OR value::cidr IS NOT NULL)
+);
+
+ALTER TABLE public.blocklist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owner can read the blocklist"
+ON public.blocklist
+FOR SELECT
+TO authenticated
+USING (public.is_site_owner());
+
+CREATE POLICY "Owner can add blocklist entries"
+ON public.blocklist
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_site_owner());
+
+CREATE POLICY "Owner can remove blocklist entries"
+ON public.blocklist
+FOR DELETE
+TO authenticated
+USING (public.is_site_owner());
+
+-- The active entry blocking this submission, if any. `ip` is whatever the
+-- edge function saw and may not be a valid address; it is then only checked
+-- by email.
+CREATE OR REPLACE FUNCTION public.contact_blocklist_match(ip TEXT, email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  client_ip INET;
+  email_domain TEXT := lower(split_part(email, '@', 2));
+  entry_id UUID;
+BEGIN
+  BEGIN
+    client_ip := ip::inet;
+  EXCEPTION WHEN invalid_text_representation THEN
+    client_ip := NULL;
+  END;
+
+  SELECT id INTO entry_id
+  FROM public.blocklist
+  WHERE (expires_at IS NULL OR expires_at > now())
+    AND (
+      (kind = 'email' AND value = lower(email))
+      OR (kind = 'domain' AND (email_domain = value OR email_domain LIKE '%.' || value))
+      OR (kind = 'ip' AND client_ip IS NOT NULL AND client_ip <<= value::cidr)
+    )
+  LIMIT 1;
+
+  RETURN entry_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.contact_blocklist_match(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.contact_spam_attempts
+  DROP CONSTRAINT contact_spam_attempts_reason_check,
+  ADD CONSTRAINT contact_spam_attempts_reason_check
+    CHECK (reason IN ('honeypot', 'too_fast', 'invalid_proof', 'blocked'));
@@ -0,0 +1,16 @@
+-- Where each contact message came from, without raw personal data: a keyed
+-- hash of the sender's IP (IP_HASH_SALT, a function secret, is the key), the
+-- browser family rather than the full user agent, the external page that
+-- referred the visitor (query string dropped), the locale of the page the
+-- form was sent from and the UTM parameters of the visit.
+ALTER TABLE public.contact_messages
+  ADD COLUMN ip_hash TEXT,
+  ADD COLUMN user_agent_family TEXT,
+  ADD COLUMN referrer TEXT,
+  ADD COLUMN page_locale TEXT,
+  ADD COLUMN utm JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Lets the inbox count other messages sent from the same address
+CREATE INDEX contact_messages_ip_hash_idx
+  ON public.contact_messages (ip_hash)
+  WHERE ip_hash IS NOT NULL;
@@ -0,0 +1,6 @@
+-- Blocked attempts keep the same keyed IP hash as contact_messages instead of
+-- the raw address. Stored addresses can't be hashed here (the key is a
+-- function secret), so they are dropped with the column.
+ALTER TABLE public.contact_spam_attempts
+  ADD COLUMN ip_hash TEXT,
+  DROP COLUMN ip;
@@ -0,0 +1,5 @@
+-- Blocking a message's sender by IP without knowing the address: entries that
+-- match the keyed IP hash stored with each message (see the next migration).
+-- A separate migration because a new enum value can't be used in the
+-- transaction that adds it.
+ALTER TYPE public.blocklist_kind ADD VALUE IF NOT EXISTS 'ip_hash';
@@ -0,0 +1,44 @@
+-- 'ip_hash' entries hold the hex HMAC-SHA-256 that submit-contact stores as
+-- contact_messages.ip_hash.
+ALTER TABLE public.blocklist
+  ADD CONSTRAINT blocklist_ip_hash_format
+    CHECK (kind <> 'ip_hash' OR value ~ '^[0-9a-f]{64}$');
+
+DROP FUNCTION public.contact_blocklist_match(TEXT, TEXT);
+
+-- The active entry blocking this submission, if any. `ip` is whatever the
+-- edge function saw and may not be a valid address; it is then only checked
+-- by hash and email. `ip_hash` is null when no hash key is configured.
+CREATE FUNCTION public.contact_blocklist_match(ip TEXT, ip_hash TEXT, email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  client_ip INET;
+  email_domain TEXT := lower(split_part(email, '@', 2));
+  entry_id UUID;
+BEGIN
+  BEGIN
+    client_ip := ip::inet;
+  EXCEPTION WHEN invalid_text_representation THEN
+    client_ip := NULL;
+  END;
+
+  SELECT id INTO entry_id
+  FROM public.blocklist
+  WHERE (expires_at IS NULL OR expires_at > now())
+    AND (
+      (kind = 'email' AND value = lower(email))
+      OR (kind = 'domain' AND (email_domain = value OR email_domain LIKE '%.' || value))
+      OR (kind = 'ip' AND client_ip IS NOT NULL AND client_ip <<= value::cidr)
+      OR (kind = 'ip_hash' AND value = ip_hash)
+    )
+  LIMIT 1;
+
+  RETURN entry_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.contact_blocklist_match(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,70 @@
+-- consume_contact_rate_limit only pruned expired hits for the buckets it was
+-- called with, so every IP and address that submitted once stayed in
+-- contact_rate_limit_hits for good. It now prunes the whole table, using a
+-- created_at index so the delete doesn't scan it.
+CREATE INDEX contact_rate_limit_hits_created_at_idx
+  ON public.contact_rate_limit_hits (created_at);
+
+-- Otherwise unchanged: checks every bucket against its limit over the last
+-- window_seconds, records a hit in each when allowed, and returns 0 or the
+-- seconds until the tightest bucket frees up.
+CREATE OR REPLACE FUNCTION public.consume_contact_rate_limit(
+  buckets TEXT[],
+  max_hits INTEGER[],
+  window_seconds INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  window_start TIMESTAMP WITH TIME ZONE := now() - make_interval(secs => window_seconds);
+  retry_after INTEGER := 0;
+  blocking_hit TIMESTAMP WITH TIME ZONE;
+  lock_bucket TEXT;
+BEGIN
+  IF array_length(buckets, 1) IS DISTINCT FROM array_length(max_hits, 1) THEN
+    RAISE EXCEPTION 'buckets and max_hits must have the same length' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Serialize concurrent submissions for the same bucket. Locks are taken in a
+  -- fixed order so two requests sharing buckets cannot deadlock.
+  FOR lock_bucket IN SELECT DISTINCT b FROM unnest(buckets) AS b ORDER BY b LOOP
+    PERFORM pg_advisory_xact_lock(hashtextextended(lock_bucket, 0));
+  END LOOP;
+
+  -- Expired hits are dropped for every bucket, not just these ones, so
+  -- senders who never come back don't stay in the table. submit-contact uses
+  -- the same window for every bucket, so nothing still counted is removed.
+  DELETE FROM public.contact_rate_limit_hits
+  WHERE created_at <= window_start;
+
+  FOR i IN 1 .. coalesce(array_length(buckets, 1), 0) LOOP
+    -- The max_hits-th most recent hit is the one that has to expire before
+    -- another submission fits in the window.
+    SELECT created_at INTO blocking_hit
+    FROM public.contact_rate_limit_hits
+    WHERE bucket = buckets[i]
+    ORDER BY created_at DESC
+    OFFSET max_hits[i] - 1
+    LIMIT 1;
+
+    IF FOUND THEN
+      retry_after := greatest(
+        retry_after,
+        ceil(extract(EPOCH FROM blocking_hit + make_interval(secs => window_seconds) - now()))::INTEGER,
+        1
+      );
+    END IF;
+  END LOOP;
+
+  IF retry_after = 0 THEN
+    INSERT INTO public.contact_rate_limit_hits (bucket)
+    SELECT unnest(buckets);
+  END IF;
+
+  RETURN retry_after;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_contact_rate_limit(TEXT[], INTEGER[], INTEGER) FROM PUBLIC, anon, authenticated;
@@ -1,7 +1,21 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { portfolioData } from "./src/content/portfolio";
+import { parsePortfolioContent } from "./src/content/schema";
+import { localizeContent } from "./src/content/localize";
+import { LOCALES } from "./src/i18n/config";
+
+// Fails `vite build` / `vite dev` early when src/content/portfolio.ts (or one of
+// its translations in src/content/translations.ts) has a malformed entry.
+const portfolioContent = (): Plugin => ({
+  name: "portfolio-content",
+  buildStart() {
+    const content = parsePortfolioContent(portfolioData);
+    LOCALES.forEach((locale) => parsePortfolioContent(localizeContent(content, locale)));
+  },
+});
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -10,12 +24,15 @@ export default defineConfig(({ mode }) => ({
     port: 8080,
   },
   plugins: [
+    portfolioContent(),
     react(),
     mode === 'development' && componentTagger(),
   ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Pure modules shared with the Supabase edge functions
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
   },
 }));